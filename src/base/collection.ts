@@ -70,13 +70,8 @@ export class PersonaCollection extends Collection {
     async createFilter(context: IContext, filter?: Filter): Promise<Filter> {
         const persona = context.persona;
         const userAccountId = context.userAccountId;
-        let colWhere = this.cfgFilter;
+        const memberLists: string[][] = [];
         for (const match of this.matches) {
-            const matchPosition = match["index"];
-            if (matchPosition === undefined) {
-                continue;
-            }
-            const matchLen = match[0].length;
             const membershipName = match[1];
             const membership = persona.memberships.get(membershipName);
             if (!membership) {
@@ -86,9 +81,26 @@ export class PersonaCollection extends Collection {
                     `exist for persona '${persona.name}'`);
             }
             const entity = membership.entity;
-            const members = await entity.getMembers(
+            memberLists.push(await entity.getMembers(
                 membership.source.service!, context, userAccountId,
-                membership.through);
+                membership.through));
+        }
+        // The matches are in reverse order, so the parameters of the first
+        // match in the filter are those of the last entry.
+        const parameters: string[] = [];
+        for (let index = memberLists.length - 1; index >= 0; index--) {
+            parameters.push(...memberLists[index]);
+        }
+        let colWhere = this.cfgFilter;
+        let next = parameters.length + 1;
+        this.matches.forEach((match, index) => {
+            const members = memberLists[index];
+            next -= members.length;
+            const matchPosition = match["index"];
+            if (matchPosition === undefined) {
+                return;
+            }
+            const matchLen = match[0].length;
             if (members.length == 0) {
                 // no members found, so we purposely return a comparison
                 // with null, which always evaluates to false
@@ -99,23 +111,17 @@ export class PersonaCollection extends Collection {
                 // single match found, use 'equals'
                 colWhere = PersonaCollection.replaceMatch(colWhere,
                                         matchPosition, matchLen,
-                                        `= '${members[0]}'`);
+                                        `= \$${next}`);
             } else {
                 // multiple matches found, use 'in'
-                const quoted: string[] = [];
-                members.forEach((member) => quoted.push(`'${member}'`));
-                const inClause = `in (${quoted.join()})`;
+                const placeholders = members.map(
+                    (member, offset) => `\$${next + offset}`);
+                const inClause = `in (${placeholders.join()})`;
                 colWhere = PersonaCollection.replaceMatch(
                     colWhere, matchPosition, matchLen, inClause);
             }
-        }
-        const finalFilter = new Filter();
-        if (filter && filter.notEmpty) {
-            finalFilter.seal(`(${colWhere}) and (${filter.where})`);
-        } else {
-            finalFilter.seal(colWhere);
-        }
-        return finalFilter;
+        });
+        return new Filter().sealWith(colWhere, filter, parameters);
     }
 }
 
@@ -157,18 +163,14 @@ export class ContainedCollection extends Collection {
         const ourTable = this.entity.v.table;
         const pTable = forCollection.entity.v.table;
         const id = forCollection.entity.name + "_id";
-        const innerFilter = await forCollection.createFilter(context);
+        const innerFilter = (await forCollection.createFilter(
+            context)).compile(forCollection.entity.v);
         const existsWhere =
             `exists (select 1 from ${pTable} where ` +
             `(${innerFilter.where}) and (_id = ${ourTable}.${id}) )`;
 
-        const finalFilter = new Filter();
-        if (filter && filter.notEmpty) {
-            finalFilter.seal(`( ${existsWhere} ) and ( ${filter.where} )`);
-        } else {
-            finalFilter.seal(existsWhere);
-        }
-        return finalFilter;
+        return new Filter().sealWith(
+            existsWhere, filter, innerFilter.parameters);
     }
 }
 
@@ -461,6 +461,10 @@ class NobodyContext implements IContext {
     getSubject(key: string): string {
         return "";
     }
+
+    getMembers(key: string): string[] {
+        return [];
+    }
 }
 
 class ClientContext {
@@ -32,6 +32,36 @@ class CoreError extends _IError {
     }
 }
 
+/* A business rule failure, pinned on 'field' where it applies to a single
+ * field. The 'code' identifies the rule, like "required", "maxlength",
+ * "minlength", "format", "unique", "range", "enum", "reference" or
+ * "invalid", and 'params' holds the values the rule was checked against.
+ */
+export type FieldError = {
+    field?: string;
+    code: string;
+    params?: JsonObject;
+    message: string;
+}
+
+export class ValidationError extends _IError {
+    errors: FieldError[];
+
+    static forField(field: string | undefined, code: string, message: string,
+                    params?: JsonObject): ValidationError {
+        return new ValidationError([
+            { field: field, code: code, params: params, message: message }
+        ]);
+    }
+
+    constructor(errors: FieldError[], options?: ErrorOptions) {
+        super(422, errors.map((error) => error.field ?
+            `${error.field}: ${error.message}` : error.message).join("; "),
+              options);
+        this.errors = errors;
+    }
+}
+
 export interface AsyncTask {
     start(): Promise<any>;
     stop(): Promise<any>;
@@ -39,6 +69,22 @@ export interface AsyncTask {
 
 export type PolicyAction = "get" | "put" | "post" | "delete";
 
+export type PolicyDecision = {
+    decided: Date;
+    userAccountId: string;
+    persona: string;
+    resource: string;
+    action: PolicyAction;
+    effect: "allow" | "deny";
+    rule: string;
+    reason: string;
+    rowId?: string;
+}
+
+export interface IPolicyAuditor {
+    record(decision: PolicyDecision): void;
+}
+
 export interface IPolicyConfiguration {
     guardResource(context: IContext, resource: string,
                   action: PolicyAction): void;
@@ -46,6 +92,14 @@ export interface IPolicyConfiguration {
              row: Row): Row;
     guardResultSet(context: IContext, resource: string,
                    resultSet: IResultSet): IResultSet;
+    createFilter(context: IContext, entity: Entity,
+                 filter?: Filter): Filter | undefined;
+    hasFieldRules(context: IContext, resource: string,
+                  action: PolicyAction): boolean;
+    maskRow(context: IContext, resource: string, row: Row): Row;
+    guardFields(context: IContext, resource: string, action: PolicyAction,
+                row: Row, current?: Row): Row;
+    setAuditor(auditor: IPolicyAuditor): void;
 }
 
 export interface IConfiguration {
@@ -81,7 +135,10 @@ export interface IContext {
     persona: Persona;
     userAccount: string;
     userAccountId: string;
+    // API keys can narrow the persona's access to "<resource>:<action>"
+    scopes?: string[];
     getSubject(key: string): string;
+    getMembers(key: string): string[];
 }
 
 export type KeyValue = {
@@ -168,6 +225,23 @@ export class Logger {
 
 type FilterLogical = "and" | "or";
 type FilterOperator = "=" | "!=" | "<>" | ">" | "<" | ">=" | "<=" | "<@";
+type FilterComparison = FilterOperator | "isNull" | "isNotNull";
+
+/* A single term of a Filter. The value is always kept as a string and is
+ * only ever passed to the database as a bind parameter. 'asIs' values are
+ * rendered without quotes in toParameters(), e.g. for numbers.
+ */
+export type FilterCondition = {
+    column: string;
+    operator: FilterComparison;
+    value?: string;
+    asIs?: boolean;
+}
+
+export type CompiledFilter = {
+    where: string;
+    parameters: any[];
+}
 
 /*
  * https://host.domain/e/asset?f=a,b,c&o=a+&q=a&w=b!,a='hello\, \\ \'\'a=b'
@@ -175,20 +249,84 @@ type FilterOperator = "=" | "!=" | "<>" | ">" | "<" | ">=" | "<=" | "<@";
  *
  * https://host.domain/e/asset?f=a,b,c&o=a+&q=o&w=b~,a>=3
  *                               where: b is null or a > 3
+ *
+ * The terms are parsed into FilterConditions, which are compiled into a
+ * where clause with $n bind parameters by compile().
  */
 export class Filter {
-    chunks: string[];
+    conditions: FilterCondition[];
     combinedAs: FilterLogical;
-    private _sealedWhere?: string;
+    private _sealed: CompiledFilter[];
 
-    static NullNotNullRegex = /^(\w+)([~!])$/;
+    static NullNotNullRegex = /^([\w\.]+)([~!])$/;
     static ComparisonRegex = /^([\w\.]+)([<>=!@]+)(.+)/;
+    static ColumnRegex = /^([a-z_][a-z0-9_]*\.)?[a-z_][a-z0-9_]*$/;
+    static Operators: FilterOperator[] = [
+        "=", "!=", "<>", ">", "<", ">=", "<=", "<@"
+    ];
     static QueryAnd      = "q=a&w=";
     static QueryOr       = "q=o&w=";
 
+    static checkColumn(column: string): string {
+        if (!Filter.ColumnRegex.test(column)) {
+            throw new CoreError(`Invalid filter column: '${column}'`);
+        }
+        return column;
+    }
+
+    static checkOperator(operator: string): FilterOperator {
+        const found = Filter.Operators.find((op) => op == operator);
+        if (!found) {
+            throw new CoreError(`Invalid filter operator: '${operator}'`);
+        }
+        return found;
+    }
+
+    static parseChunk(chunk: string): FilterCondition {
+        let matched = chunk.match(Filter.NullNotNullRegex);
+        if (matched) {
+            return {
+                column: Filter.checkColumn(matched[1]),
+                operator: matched[2] == "~" ? "isNull" : "isNotNull"
+            };
+        }
+        matched = chunk.match(Filter.ComparisonRegex);
+        if (matched) {
+            const value = matched[3];
+            const quoted = value.length >= 2 && value.startsWith("'") &&
+                value.endsWith("'");
+            return {
+                column: Filter.checkColumn(matched[1]),
+                operator: Filter.checkOperator(matched[2]),
+                value: quoted ?
+                    value.slice(1, -1).replaceAll("''", "'") : value.trim(),
+                asIs: !quoted
+            };
+        }
+        throw new CoreError(`Invalid filter: '${chunk}'`);
+    }
+
+    static toChunk(condition: FilterCondition): string {
+        switch (condition.operator) {
+            case "isNull":
+                return `${condition.column}~`;
+            case "isNotNull":
+                return `${condition.column}!`;
+        }
+        const value = condition.value || "";
+        const finalValue = condition.asIs ?
+            value : `'${value.replaceAll("'", "''")}'`;
+        return `${condition.column}${condition.operator}${finalValue}`;
+    }
+
+    static escapeChunk(chunk: string): string {
+        return chunk.replaceAll("\\", "\\\\").replaceAll(",", "\\,");
+    }
+
     constructor(combinedAs?: FilterLogical) {
         this.combinedAs = combinedAs || "and";
-        this.chunks = [];
+        this.conditions = [];
+        this._sealed = [];
     }
 
     parseParameters(parameters: string): void {
@@ -219,77 +357,171 @@ export class Filter {
             } else {
                 throw new CoreError(`Invalid filter parameter: '${parameters}'`);
             }
-            this.chunks = [];
-            this.split(toParse.substring(Filter.QueryAnd.length));
-            this.createWhere();
+            this.conditions = this.split(
+                toParse.substring(Filter.QueryAnd.length)).map(
+                    (chunk) => Filter.parseChunk(chunk));
         }
     }
 
-    seal(where: string): void {
-        this._sealedWhere = where;
+    /* A sealed where clause refers to its own parameters as $1, $2, ...,
+     * these get renumbered when the Filter is compiled.
+     */
+    seal(where: string, parameters?: any[]): void {
+        this._sealed = [{ where: where, parameters: parameters || [] }];
+    }
+
+    /* Seals 'where' and takes over the conditions and sealed clauses of
+     * 'filter' (if any), so these still get compiled into bind parameters.
+     */
+    sealWith(where: string, filter?: Filter, parameters?: any[]): Filter {
+        this.seal(where, parameters);
+        if (filter && filter.notEmpty) {
+            this._sealed = this._sealed.concat(filter._sealed);
+            this.combinedAs = filter.combinedAs;
+            this.conditions = Array.from(filter.conditions);
+        }
+        return this;
     }
 
     get sealed(): boolean {
-        return !!this._sealedWhere;
+        return this._sealed.length > 0;
     }
 
     get notEmpty(): boolean {
-        return (!!this._sealedWhere) || this.chunks.length > 0;
+        return this.sealed || this.conditions.length > 0;
     }
 
     get empty(): boolean {
         return !this.notEmpty;
     }
 
+    get chunks(): string[] {
+        return Array.from(
+            this.conditions, (condition) => Filter.toChunk(condition));
+    }
+
     toParameters(firstTerm?: boolean): string {
-        if (!(this.chunks.length)) {
-            throw new CoreError("Invalid Filter - no chunks defined");
+        if (!(this.conditions.length)) {
+            throw new CoreError("Invalid Filter - no conditions defined");
         }
+        const terms = encodeURIComponent(
+            this.chunks.map((chunk) => Filter.escapeChunk(chunk)).join());
         if (this.combinedAs == "or") {
             if (firstTerm) {
-                return "?" + Filter.QueryOr +
-                    encodeURIComponent(this.chunks.join());
+                return "?" + Filter.QueryOr + terms;
             }
-            return "&" + Filter.QueryOr +
-                encodeURIComponent(this.chunks.join());
+            return "&" + Filter.QueryOr + terms;
         } else {
             if (firstTerm) {
-                return "?" + Filter.QueryAnd +
-                    encodeURIComponent(this.chunks.join());
+                return "?" + Filter.QueryAnd + terms;
             }
-            return "&" + Filter.QueryAnd +
-                encodeURIComponent(this.chunks.join());
+            return "&" + Filter.QueryAnd + terms;
         }
     }
 
     isNotNull(operand: string): Filter {
-        this.chunks.push(`${operand.trim()}!`);
+        this.conditions.push({
+            column: Filter.checkColumn(operand.trim()),
+            operator: "isNotNull"
+        });
         return this;
     }
 
     isNull(operand: string): Filter {
-        this.chunks.push(`${operand.trim()}~`);
+        this.conditions.push({
+            column: Filter.checkColumn(operand.trim()),
+            operator: "isNull"
+        });
         return this;
     }
 
     op(leftHand: string, operator: FilterOperator, rightHand: string,
                          asIs?: boolean): Filter {
-        const finalRight = !asIs ? `'${rightHand}'` : rightHand.trim();
-        this.chunks.push(`${leftHand.trim()}${operator.trim()}` + finalRight);
+        this.conditions.push({
+            column: Filter.checkColumn(leftHand.trim()),
+            operator: Filter.checkOperator(operator.trim()),
+            value: asIs ? rightHand.trim() : rightHand,
+            asIs: !!asIs
+        });
         return this;
     }
 
-    get where(): string {
-        if (this._sealedWhere) {
-            if (this.chunks.length > 0) {
-                return `${this._sealedWhere} and ( ${this.createWhere()} )`;
+    private compileColumn(column: string, entityColumns?: string[],
+                          entity?: Entity, prefix?: string): string {
+        let unqualified = column;
+        const dot = column.indexOf(".");
+        if (dot >= 0) {
+            if (entity && column.substring(0, dot) != entity.table) {
+                throw new CoreError(
+                    `Filter column '${column}' does not belong to ` +
+                    `entity '${entity.name}'`);
             }
-            return this._sealedWhere;
+            unqualified = column.substring(dot + 1);
         }
-        if (this.chunks.length > 0) {
-            return this.createWhere();
+        if (entityColumns && !entityColumns.includes(unqualified)) {
+            throw new CoreError(
+                `Filter column '${unqualified}' is not a field of ` +
+                `entity '${entity!.name}'`);
+        }
+        if (prefix) {
+            return `${prefix}.${unqualified}`;
+        }
+        return column;
+    }
+
+    private compileSealed(sealed: CompiledFilter, parameters: any[]): string {
+        if (sealed.parameters.length == 0) {
+            return sealed.where;
         }
-        return "";
+        const offset = parameters.length;
+        parameters.push(...sealed.parameters);
+        return sealed.where.replace(
+            /\$(\d+)/g, (match, num) => `\$${offset + Number(num)}`);
+    }
+
+    /* Compiles the conditions into a where clause. Values are appended to
+     * 'parameters' and referenced as $n, so a caller can compile a Filter
+     * into a statement that already holds parameters. When an entity is
+     * passed, all columns must be columns of that entity. The prefix
+     * qualifies the columns, e.g. to disambiguate joined tables.
+     */
+    compile(entity?: Entity, parameters?: any[],
+            prefix?: string): CompiledFilter {
+        const finalParameters = parameters || [];
+        const sealedParts = this._sealed.map(
+            (sealed) => this.compileSealed(sealed, finalParameters));
+        const sealedWhere = sealedParts.length == 1 ? sealedParts[0] :
+            sealedParts.map((part) => `(${part})`).join(" and ");
+        const entityColumns = entity ?
+            CoreColumns.addToEntity(entity.allFieldColumns) : undefined;
+        const components: string[] = [];
+        for (const condition of this.conditions) {
+            const column = this.compileColumn(
+                condition.column, entityColumns, entity, prefix);
+            switch (condition.operator) {
+                case "isNull":
+                    components.push(`${column} is null`);
+                    break;
+                case "isNotNull":
+                    components.push(`${column} is not null`);
+                    break;
+                default:
+                    finalParameters.push(condition.value);
+                    components.push(
+                        `${column} ${condition.operator} ` +
+                        `\$${finalParameters.length}`);
+            }
+        }
+        let where = components.join(` ${this.combinedAs} `);
+        if (sealedWhere) {
+            where = components.length > 0 ?
+                `(${sealedWhere}) and ( ${where} )` : sealedWhere;
+        }
+        return { where: where, parameters: finalParameters };
+    }
+
+    toString(): string {
+        return this.chunks.join(` ${this.combinedAs} `);
     }
 
     private lookAhead(input: string, pos: number, searchStr: string): boolean {
@@ -305,26 +537,8 @@ export class Filter {
         return false;
     }
 
-    private createWhere(): string {
-        const components: string[] = [];
-        for (const chunk of this.chunks) {
-            let matched = chunk.match(Filter.NullNotNullRegex);
-            if (matched) {
-                const operation = matched[2] == "~" ? "is null" : "is not null";
-                components.push(`${matched[1]} ${operation}`);
-                continue;
-            }
-            matched = chunk.match(Filter.ComparisonRegex);
-            if (matched) {
-                components.push(`${matched[1]} ${matched[2]} ${matched[3]}`);
-                continue;
-            }
-            throw new CoreError(`Invalid filter: '${chunk}'`);
-        }
-        return components.join(` ${this.combinedAs} `);
-    }
-
-    private split(input: string): void {
+    private split(input: string): string[] {
+        const chunks: string[] = [];
         let pos = 0;
         let chunk = "";
         while (pos < input.length) {
@@ -335,7 +549,7 @@ export class Filter {
                         throw new CoreError(`Empty component found in ` +
                                             `clause '${input}', pos: ${pos}`);
                     }
-                    this.chunks.push(chunk);
+                    chunks.push(chunk);
                     chunk = "";
                     pos++;
                     break;
@@ -354,8 +568,9 @@ export class Filter {
             }
         }
         if (chunk) {
-            this.chunks.push(chunk);
+            chunks.push(chunk);
         }
+        return chunks;
     }
 }
 
@@ -598,6 +813,12 @@ export interface IResultSet {
     find(callback: RowFinderCallback): Row | undefined;
     filter(callback: RowFinderCallback): Row[];
     some(callback: RowFinderCallback): boolean;
+
+    // Paging, replaces the current rows with the next page (if any):
+    get hasMorePages(): boolean;
+    fetchNextPage(): Promise<boolean>;
+    // Like next(), but fetches the next page once the current one is read:
+    nextRow(): Promise<boolean>;
 }
 
 export class EmptyResultSet implements IResultSet {
@@ -657,6 +878,18 @@ export class EmptyResultSet implements IResultSet {
     getColumns(): string[] {
         throw new CoreError("Cannot call getColumns() on EmptyResultSet");
     }
+
+    get hasMorePages(): boolean {
+        return false;
+    }
+
+    async fetchNextPage(): Promise<boolean> {
+        return false;
+    }
+
+    async nextRow(): Promise<boolean> {
+        return false;
+    }
 }
 
 export class MemResultSet implements IResultSet {
@@ -815,6 +1048,125 @@ export class MemResultSet implements IResultSet {
             }
         }
     }
+
+    get hasMorePages(): boolean {
+        return false;
+    }
+
+    async fetchNextPage(): Promise<boolean> {
+        return false;
+    }
+
+    async nextRow(): Promise<boolean> {
+        while (!this.next()) {
+            if (!(await this.fetchNextPage())) {
+                return false;
+            }
+        }
+        return true;
+    }
+}
+
+export type PageFetcher = (skip: number, limit: number) => Promise<Object[]>;
+
+/*
+ * PagedResultSet holds a single page of rows at a time. Once next() returns
+ * false, fetchNextPage() pulls the next page through the fetcher, until a
+ * short page is returned or the optional limit is reached. Use nextRow() to
+ * read all rows, next() stops at the end of the current page and find(),
+ * filter() and some() throw while pages are left.
+ */
+export class PagedResultSet extends MemResultSet {
+    private fetcher: PageFetcher;
+    private pageSize: number;
+    private nextSkip: number;
+    private remaining?: number;
+    private morePages: boolean;
+
+    constructor(firstPage: Object[], pageSize: number, fetcher: PageFetcher,
+                skip?: number, limit?: number) {
+        super(firstPage);
+        if (pageSize <= 0) {
+            throw new CoreError(`Invalid pageSize: ${pageSize}`);
+        }
+        this.fetcher = fetcher;
+        this.pageSize = pageSize;
+        this.nextSkip = (skip || 0) + firstPage.length;
+        this.remaining =
+            limit !== undefined ? limit - firstPage.length : undefined;
+        this.morePages = this.isFullPage(firstPage.length, pageSize);
+    }
+
+    private isFullPage(length: number, requested: number): boolean {
+        return length >= requested &&
+            (this.remaining === undefined || this.remaining > 0);
+    }
+
+    get hasMorePages(): boolean {
+        return this.morePages;
+    }
+
+    /* The synchronous scans cannot fetch, so they only serve the last page. */
+    private checkLastPage(method: string): void {
+        if (this.morePages) {
+            throw new CoreError(
+                `Cannot call ${method}() with pages left, use nextRow()`);
+        }
+    }
+
+    find(callback: RowFinderCallback): Row | undefined {
+        this.checkLastPage("find");
+        return super.find(callback);
+    }
+
+    filter(callback: RowFinderCallback): Row[] {
+        this.checkLastPage("filter");
+        return super.filter(callback);
+    }
+
+    some(callback: RowFinderCallback): boolean {
+        this.checkLastPage("some");
+        return super.some(callback);
+    }
+
+    async fetchNextPage(): Promise<boolean> {
+        if (!this.morePages) {
+            return false;
+        }
+        const requested = this.remaining !== undefined ?
+            Math.min(this.pageSize, this.remaining) : this.pageSize;
+        const rows = await this.fetcher(this.nextSkip, requested);
+        this.nextSkip += rows.length;
+        if (this.remaining !== undefined) {
+            this.remaining -= rows.length;
+        }
+        this.morePages = this.isFullPage(rows.length, requested);
+        this.loadAll(rows);
+        return rows.length > 0;
+    }
+}
+
+/* A single write of IService.bulk(). Posts and puts carry the 'row', puts
+ * and deletes the 'id' and deletes the 'rev' to delete. The values of a
+ * 'confidential' post of an immutable entity are not logged. A 'mustExist'
+ * delete of an immutable entity fails when there is no row to delete, so
+ * of concurrent bulks spending the same single-use row only one commits.
+ */
+export type BulkOperation = {
+    action: "post" | "put" | "delete";
+    entity: Entity;
+    id?: string;
+    rev?: string;
+    row?: Row;
+    confidential?: boolean;
+    mustExist?: boolean;
+}
+
+export type BulkResult = {
+    action: "post" | "put" | "delete";
+    entity: string;
+    id: string;
+    row?: Row;
 }
 
 export interface IService {
@@ -827,6 +1179,14 @@ export interface IService {
                      generatorName: string): Promise<string>;
     getOne(logger: Logger, context: IContext, entity: Entity, id: string,
            rev?: string): Promise<Row>;
+    getHistory(logger: Logger, context: IContext, entity: Entity,
+               id: string): Promise<Row[]>;
+    getConflicts(logger: Logger, context: IContext, entity: Entity,
+                 filter?: Filter): Promise<Row[]>;
+    getConflictRevisions(logger: Logger, context: IContext, entity: Entity,
+                         id: string): Promise<Row[]>;
+    resolveConflict(logger: Logger, context: IContext, entity: Entity,
+                    id: string, rev: string, row?: Row): Promise<Row>;
     queryCollection(logger: Logger, context: IContext, collection: Collection,
                     query?: Query): Promise<IResultSet>;
     getQuery(logger: Logger, context: IContext, entity: Entity,
@@ -837,6 +1197,8 @@ export interface IService {
          row: Row): Promise<Row>;
     delete(logger: Logger, context: IContext, entity: Entity, id: string,
            rev: string): Promise<void>;
+    bulk(logger: Logger, context: IContext,
+         operations: BulkOperation[]): Promise<BulkResult[]>;
     deleteImmutable(logger: Logger, context: IContext, entity: Entity,
                     id: string): Promise<void>;
     queryDeferredToken(logger: Logger, context: IContext, parent: string,
@@ -856,6 +1218,9 @@ export interface IAuthenticator {
     createLogin(logger: Logger, context: IContext, row: Row): Promise<Row>;
     login(logger: Logger, row: Row): Promise<IContext>;
     logout(logger: Logger, context: IContext): Promise<void>;
+    switchPersona(logger: Logger, context: IContext,
+                  persona: string): Promise<IContext>;
+    recordActivity(context: IContext): void;
 }
 
 type Metadata = {
@@ -876,19 +1241,46 @@ export type TypeCfg<SpecType extends ClassSpec> = {
 
 export type IndexType = "none" | "asc" | "desc";
 
+/* Constraints are checked on the string value of the field, except 'min'
+ * and 'max', which only apply to the numeric and date fields and are
+ * compared after transforming them like the value itself. 'pattern' must
+ * match the whole value. 'maxlength' sizes the column, and is only checked
+ * with 'enforceMaxlength', except by StringField, which always checks it.
+ */
 export type FieldCfg = ClassSpec & {
     name: string;
     required?: boolean;
     partitioned?: boolean;
     default?: string;
     maxlength?: number;
+    enforceMaxlength?: boolean;
+    minlength?: number;
+    pattern?: string;
+    enum?: string[];
+    min?: number | string;
+    max?: number | string;
     indexed?: IndexType;
 }
 
+/* A rule across the fields of an entity, for example:
+ *     returnts > appointmentts when triptype = RETURN
+ * See EntityRule for the syntax. 'message' replaces the generated message.
+ */
+export type RuleCfg = {
+    rule: string;
+    message?: string;
+}
+
+/* With 'serverAuthoritative', the server rebuilds every written record
+ * through the entity and its fields, running their business rules before
+ * persisting.
+ */
 export type EntitySpec = ClassSpec & {
     table: string;
     keyFields: FieldCfg[];
     coreFields: FieldCfg[];
+    rules?: RuleCfg[];
+    serverAuthoritative?: boolean;
 }
 
 type MembershipCfg = {
@@ -1138,6 +1530,11 @@ export class BigDecimal {
         return this._n == other._n;
     }
 
+    // Negative, zero or positive when this is less, equal or greater
+    compare(other: BigDecimal): number {
+        return this._n < other._n ? -1 : this._n > other._n ? 1 : 0;
+    }
+
     toString(): string {
         const str = this._n.toString().padStart(BigDecimal.DECIMALS + 1, "0");
         return str.slice(0, -BigDecimal.DECIMALS) +
@@ -1252,6 +1649,14 @@ export class Field {
     default: string;
     indexed: IndexType;
     maxlength?: number;
+    enforceMaxlength: boolean;
+    minlength?: number;
+    pattern?: RegExp;
+    allowed?: string[];
+    min?: number | string;
+    max?: number | string;
+    // Fields derived from this one, see compute()
+    dependents: Field[];
     logger: Logger;
 
     constructor(entity: Entity, config: FieldCfg) {
@@ -1263,6 +1668,15 @@ export class Field {
         this.type = config.type;
         this.indexed = config.indexed ?? "none";
         this.maxlength = config.maxlength;
+        this.enforceMaxlength = config.enforceMaxlength ?? false;
+        this.minlength = config.minlength;
+        if (config.pattern) {
+            this.pattern = new RegExp(`^(?:${config.pattern})$`);
+        }
+        this.allowed = config.enum;
+        this.min = config.min;
+        this.max = config.max;
+        this.dependents = [];
         this.logger = new Logger(`field/${this.entity.name}/${this.name}`);
     }
 
@@ -1301,7 +1715,39 @@ export class Field {
         const fieldState = state.field(this.name);
         this.applyValue(state, fieldState, value);
         await this.validate("set", state, fieldState, context);
-        return await this.activate("set", state, fieldState, context);
+        const sideEffects =
+            await this.activate("set", state, fieldState, context);
+        return this.computeDependents(state, sideEffects);
+    }
+
+    /* Computes the fields derived from this field, or from the fields it
+     * changed as a side effect, and adds them to the side effects.
+     */
+    protected computeDependents(state: State,
+                                sideEffects: SideEffects): SideEffects {
+        const changed = [this.name].concat(sideEffects ?? []);
+        const computed: string[] = [];
+        for (let index = 0; index < changed.length; index++) {
+            const field = this.entity.findField(changed[index]);
+            for (const dependent of field?.dependents ?? []) {
+                dependent.compute(state);
+                if (!changed.includes(dependent.name)) {
+                    changed.push(dependent.name);
+                    computed.push(dependent.name);
+                }
+            }
+        }
+        if (computed.length == 0) {
+            return sideEffects;
+        }
+        return (sideEffects ?? []).concat(computed);
+    }
+
+    /* Computes the value of a field derived from other fields. Called when
+     * one of them is set, so it must be lightweight and synchronous.
+     */
+    compute(state: State): void {
+        // Nothing to compute by default
     }
 
     value(state: State): any {
@@ -1342,15 +1788,83 @@ export class Field {
         if (this.required && fieldState.isNull) {
             switch (phase) {
                 case "create":
-                    throw new CoreError(`${fieldState.name} requires a value`);
+                    throw this.invalid(
+                        "required", `${fieldState.name} requires a value`);
                 case "update":
                     if (fieldState.dirty) {
-                        throw new CoreError(
-                            `${fieldState.name} requires a value`);
+                        throw this.invalid(
+                            "required", `${fieldState.name} requires a value`);
                     }
                     break;
             }
         }
+        if (phase != "delete" && fieldState.isNotNull) {
+            this.validateConstraints(fieldState);
+        }
+        if (phase == "set" && fieldState.dirtyNotNull) {
+            this.entity.checkRules(phase, state, this.name);
+        }
+    }
+
+    protected validateConstraints(fieldState: FieldState): void {
+        const value = fieldState.asString;
+        const len = value.length;
+        if (this.enforceMaxlength && this.maxlength &&
+                len > this.maxlength) {
+            throw this.invalid(
+                "maxlength",
+                `Field '${this.fqName}' length too long: '${len}'` +
+                ` characters is greater than ${this.maxlength}`,
+                { maxlength: this.maxlength, length: len });
+        }
+        if (this.minlength && len < this.minlength) {
+            throw this.invalid(
+                "minlength",
+                `Field '${this.fqName}' length too short: '${len}'` +
+                ` characters is less than ${this.minlength}`,
+                { minlength: this.minlength, length: len });
+        }
+        if (this.pattern) {
+            this.testValidCharacters(value, this.pattern);
+        }
+        if (this.allowed && !this.allowed.includes(value)) {
+            throw this.invalid(
+                "enum",
+                `${value} is not a valid entry for ${this.fqName}`,
+                { values: this.allowed });
+        }
+    }
+
+    // Orders two transformed values, for validateRange()
+    protected compareValues(left: any, right: any): number {
+        return left < right ? -1 : left > right ? 1 : 0;
+    }
+
+    // Called by the numeric and date fields, which can be compared
+    protected validateRange(fieldState: FieldState): void {
+        const value = fieldState.value;
+        if (this.min !== undefined &&
+            this.compareValues(value, this.transform(this.min)) < 0) {
+            throw this.invalid(
+                "range",
+                `Field '${this.fqName}' value ${fieldState.asString} is` +
+                ` less than ${this.min}`,
+                { min: this.min });
+        }
+        if (this.max !== undefined &&
+            this.compareValues(value, this.transform(this.max)) > 0) {
+            throw this.invalid(
+                "range",
+                `Field '${this.fqName}' value ${fieldState.asString} is` +
+                ` greater than ${this.max}`,
+                { max: this.max });
+        }
+    }
+
+    // A ValidationError for this field, to be thrown by validate()
+    invalid(code: string, message: string,
+            params?: JsonObject): ValidationError {
+        return ValidationError.forField(this.name, code, message, params);
     }
 
     async activate(phase: Phase, state: State, fieldState: FieldState,
@@ -1365,9 +1879,11 @@ export class Field {
         } else if (noTrow) {
             return false;
         } else {
-            throw new CoreError(
+            throw this.invalid(
+                "format",
                 `Field '${this.fqName}' contains invalid characters or is of` +
-                    ` an incorrect format (${regex}): '${input}'`);
+                    ` an incorrect format (${regex}): '${input}'`,
+                { pattern: regex.source });
         }
     }
 
@@ -1397,6 +1913,8 @@ export class Query {
     orderBy: OrderBy[];
     filter?: Filter;
     fromClause?: string;
+    limit?: number;
+    skip?: number;
 
     static FieldRegex = /^[a-z_][a-z0-9_]+$/;
     static COUNT = /^COUNT\(\*\)$/;
@@ -1454,6 +1972,41 @@ export class Query {
         return !!this.fromClause;
     }
 
+    get grouped(): boolean {
+        return this.fields.some(
+            (field) => Query.GroupedFields.some((regex) => regex.test(field)));
+    }
+
+    get hasPaging(): boolean {
+        return this.limit !== undefined || !!this.skip;
+    }
+
+    setPaging(limit?: number, skip?: number): Query {
+        if (limit !== undefined && (!Number.isInteger(limit) || limit < 0)) {
+            throw new CoreError(`Invalid query limit: ${limit}`);
+        }
+        if (skip !== undefined && (!Number.isInteger(skip) || skip < 0)) {
+            throw new CoreError(`Invalid query skip: ${skip}`);
+        }
+        this.limit = limit;
+        this.skip = skip;
+        return this;
+    }
+
+    pagingToParameters(firstTerm?: boolean): string {
+        const result: string[] = [];
+        if (this.limit !== undefined) {
+            result.push(`l=${this.limit}`);
+        }
+        if (this.skip) {
+            result.push(`s=${this.skip}`);
+        }
+        if (result.length == 0) {
+            return "";
+        }
+        return (firstTerm ? "?" : "&") + result.join("&");
+    }
+
     orderToParameters(firstTerm?: boolean): string {
         if (this.orderBy.length > 0) {
             const result: string[] = [];
@@ -1476,6 +2029,7 @@ export class Query {
         if (this.orderBy.length > 0) {
             result += this.orderToParameters();
         }
+        result += this.pagingToParameters();
         if (this.filter) {
             result += this.filter.toParameters();
         }
@@ -1515,18 +2069,10 @@ export class StringField extends Field {
         }
     }
 
-    async validate(phase: Phase, state: State, fieldState: FieldState,
-                   context: IContext): Promise<void> {
-        await super.validate(phase, state, fieldState, context);
-        if (this.maxlength && fieldState.isNotNull) {
-            const strState = fieldState.asString;
-            const len = strState.length;
-            if (len > this.maxlength) {
-                throw new CoreError(
-                    `Field '${this.fqName}' length too long: '${len}'` +
-                    ` characters is greater than ${this.maxlength}`);
-            }
-        }
+    constructor(entity: Entity, config: FieldCfg) {
+        super(entity, config);
+        // The column is sized by maxlength, so it is always enforced
+        this.enforceMaxlength = true;
     }
 
     get ddlCreatorClass(): string {
@@ -1550,23 +2096,20 @@ export class IntegerField extends Field {
                 try {
                     result = BigInt(value);
                 } catch (error) {
-                    throw new CoreError(
-                        `Cannot transform ${this.fqName} to ${value}`,
-                        { cause: error });
+                    throw this.invalid(
+                        "format",
+                        `Field '${this.fqName}' value ${String(value)} ` +
+                        `is not an integer`);
                 }
             }
             if (result < IntegerField.MIN || result > IntegerField.MAX) {
-                throw new CoreError(
-                    `${this.fqName}: value ${value} does not fit in a 4-byte` +
-                    ` integer`);
-            }
-            try {
-                return Number.parseInt(result.toString());
-            } catch (error) {
-                throw new CoreError(
-                    `Cannot transform ${this.fqName} to ${value}`,
-                    { cause: error });
+                throw this.invalid(
+                    "range",
+                    `Field '${this.fqName}' value ${value} does not fit in ` +
+                    `a 4-byte integer`,
+                    { min: IntegerField.MIN, max: IntegerField.MAX });
             }
+            return Number.parseInt(result.toString());
         } else {
             return null;
         }
@@ -1581,6 +2124,14 @@ export class IntegerField extends Field {
         }
     }
 
+    async validate(phase: Phase, state: State, fieldState: FieldState,
+                   context: IContext): Promise<void> {
+        await super.validate(phase, state, fieldState, context);
+        if (phase != "delete" && fieldState.isNotNull) {
+            this.validateRange(fieldState);
+        }
+    }
+
     get ddlCreatorClass(): string {
         return "base.core-ddl.IntegerFieldDDL";
     }
@@ -1600,12 +2151,14 @@ export class NumberField extends Field {
             try {
                 result = Number(value);
             } catch (error) {
-                throw new CoreError(`Cannot set ${this.fqName} to ${value}`,
-                                    { cause: error });
+                // Symbols and some objects cannot be converted at all
+                result = NaN;
             }
             if (isNaN(result)) {
-                throw new CoreError(
-                    `${this.fqName}: value ${value} resolves to NaN`);
+                throw this.invalid(
+                    "format",
+                    `Field '${this.fqName}' value ${String(value)} is not a ` +
+                    `number`);
             }
             return result;
         } else {
@@ -1622,6 +2175,14 @@ export class NumberField extends Field {
         }
     }
 
+    async validate(phase: Phase, state: State, fieldState: FieldState,
+                   context: IContext): Promise<void> {
+        await super.validate(phase, state, fieldState, context);
+        if (phase != "delete" && fieldState.isNotNull) {
+            this.validateRange(fieldState);
+        }
+    }
+
     get ddlCreatorClass(): string {
         return "base.core-ddl.NumberFieldDDL";
     }
@@ -1669,7 +2230,9 @@ export class DateField extends Field {
         if (!StringField.isNullish(value)) {
             const dateObj = new Date(value);
             if (Number.isNaN(dateObj.valueOf())) {
-                throw new CoreError(`Invalid date value: '${value}'`);
+                throw this.invalid(
+                    "format",
+                    `Field '${this.fqName}' value '${value}' is not a date`);
             }
             return dateObj;
         } else {
@@ -1686,6 +2249,14 @@ export class DateField extends Field {
         }
     }
 
+    async validate(phase: Phase, state: State, fieldState: FieldState,
+                   context: IContext): Promise<void> {
+        await super.validate(phase, state, fieldState, context);
+        if (phase != "delete" && fieldState.isNotNull) {
+            this.validateRange(fieldState);
+        }
+    }
+
     get ddlCreatorClass(): string {
         return "base.core-ddl.DateFieldDDL";
     }
@@ -1855,7 +2426,8 @@ export class AncestryField extends StringField {
                 const hasChildren = await this.hasChildren(
                     state.id, "" + oldValue, state, context);
                 if (hasChildren) {
-                    throw new CoreError(
+                    throw this.invalid(
+                        "invalid",
                         `${this.fqName}: cannot change ancestry, because` +
                             ` there are still children under ${oldValue}.`);
                 }
@@ -1869,19 +2441,22 @@ export class AncestryField extends StringField {
                 }
                 const splits = newValue.split(".");
                 if (splits.length == 1) {
-                    throw new CoreError(
+                    throw this.invalid(
+                        "format",
                         `${this.fqName}: if no parent is specified, then ` +
                                 `ancestry field must be equal to key ` +
                                     `'${this.key.v.fqName}'`);
                 }
                 if (splits.some((part) => !part)) {
-                    throw new CoreError(
+                    throw this.invalid(
+                        "format",
                         `${this.fqName}: empty component(s) in value ` +
                             `'${newValue}'`);
                 }
                 const matchKey = splits.pop();
                 if (matchKey != keyValue) {
-                    throw new CoreError(
+                    throw this.invalid(
+                        "format",
                         `${this.fqName}: the final component of the ` +
                                 `ancestry field must be equal to key ` +
                                     `'${this.key.v.fqName}'`);
@@ -1890,7 +2465,8 @@ export class AncestryField extends StringField {
                 const parentExists = await this.checkParent(
                     parentAncestry, state, context);
                 if (!parentExists) {
-                    throw new CoreError(
+                    throw this.invalid(
+                        "reference",
                         `${this.fqName}: parent '${parentAncestry}' does not ` +
                             `exist`);
                 }
@@ -1971,9 +2547,11 @@ export class ForeignKey extends StringField {
             const resultSet = await this.collection.v.query(
                 context, new Query([], filter));
             if (!resultSet.next()) {
-                throw new CoreError(
+                throw this.invalid(
+                    "reference",
                     `${this.fqName} ${this.targetEntity.name} record ` +
-                    `${strValue} does not exist`);
+                    `${strValue} does not exist`,
+                    { target: this.targetEntity.name, value: strValue });
             }
             fieldState.cachedResultSet = resultSet;
         }
@@ -2229,11 +2807,165 @@ export class UniqueSiblingSequence extends IntegerField {
                 throw new CoreError("COUNT query must always return one row");
             }
             if (resultSet.get("count") > 0) {
-                throw new CoreError(
+                throw this.invalid(
+                    "unique",
                     `${this.fqName}: value '${fieldState.value}' is already ` +
-                    `used by another ${this.entity.name}`);
+                    `used by another ${this.entity.name}`,
+                    { value: fieldState.value });
+            }
+        }
+    }
+}
+
+type RuleOperator = "=" | "!=" | ">" | ">=" | "<" | "<=";
+
+type RuleClause = {
+    field: string;
+    op: RuleOperator | "required";
+    operand?: string;
+    value?: any;
+}
+
+/* A rule across the fields of an entity, in the form of:
+ *     <field> required [when <condition> [and <condition>]...]
+ *     <field> <op> <operand> [when <condition> [and <condition>]...]
+ * where a condition is '<field> <op> <operand>' and <op> is one of
+ * =, !=, >, >=, < or <=. An operand is the name of another field, or a
+ * literal, which is quoted if it contains spaces or matches a field name.
+ * A literal is transformed by the field it is compared to.
+ *
+ * Like in SQL, a comparison with a null is neither true nor false: it does
+ * not meet a condition, nor does it break the rule.
+ */
+export class EntityRule {
+    readonly entity: Entity;
+    readonly text: string;
+    readonly message?: string;
+    readonly assertion: RuleClause;
+    readonly conditions: RuleClause[];
+
+    static OPERATORS = ["=", "!=", ">", ">=", "<", "<="];
+
+    constructor(entity: Entity, config: RuleCfg) {
+        this.entity = entity;
+        this.text = config.rule;
+        this.message = config.message;
+        const tokens =
+            this.text.match(/'[^']*'|"[^"]*"|[<>!=]=?|[^\s<>!=]+/g);
+        if (!tokens) {
+            throw new CoreError(`${this.entity.name}: empty rule`);
+        }
+        const when = tokens.indexOf("when");
+        const assertion = when < 0 ? tokens : tokens.slice(0, when);
+        this.assertion = this.parseClause(assertion, true);
+        this.conditions = [];
+        let clause: string[] = [];
+        for (const token of when < 0 ? [] : tokens.slice(when + 1)) {
+            if (token == "and") {
+                this.conditions.push(this.parseClause(clause, false));
+                clause = [];
+            } else {
+                clause.push(token);
+            }
+        }
+        if (when >= 0) {
+            this.conditions.push(this.parseClause(clause, false));
+        }
+    }
+
+    private parseClause(tokens: string[], assertion: boolean): RuleClause {
+        if (assertion && tokens.length == 2 && tokens[1] == "required") {
+            this.entity.getField(tokens[0]);
+            return { field: tokens[0], op: "required" };
+        }
+        if (tokens.length != 3 || !EntityRule.OPERATORS.includes(tokens[1])) {
+            throw new CoreError(
+                `${this.entity.name}: invalid rule '${this.text}'`);
+        }
+        const field = this.entity.getField(tokens[0]);
+        const clause: RuleClause = {
+            field: field.name,
+            op: <RuleOperator>tokens[1],
+            operand: tokens[2]
+        };
+        const quoted = /^(['"]).*\1$/.test(tokens[2]);
+        if (quoted) {
+            clause.value = field.transform(tokens[2].slice(1, -1));
+        } else if (!this.entity.hasField(tokens[2])) {
+            clause.value = field.transform(tokens[2]);
+        }
+        return clause;
+    }
+
+    get field(): string {
+        return this.assertion.field;
+    }
+
+    get required(): boolean {
+        return this.assertion.op == "required";
+    }
+
+    private static comparable(value: any): any {
+        return value instanceof Date ? value.valueOf() : value;
+    }
+
+    // Returns null if either side is null
+    private compare(state: State, clause: RuleClause): boolean | null {
+        const left = EntityRule.comparable(state.value(clause.field));
+        const right = EntityRule.comparable("value" in clause ?
+            clause.value : state.value(clause.operand!));
+        if (left === null || right === null) {
+            return null;
+        }
+        switch (clause.op) {
+            case "=":
+                return left == right;
+            case "!=":
+                return left != right;
+            case ">":
+                return left > right;
+            case ">=":
+                return left >= right;
+            case "<":
+                return left < right;
+            case "<=":
+                return left <= right;
+        }
+        return null;
+    }
+
+    applies(state: State): boolean {
+        return this.conditions.every(
+            (condition) => this.compare(state, condition) === true);
+    }
+
+    // Returns the error if the rule is broken, null otherwise
+    check(state: State): FieldError | null {
+        if (!this.applies(state)) {
+            return null;
+        }
+        if (this.required) {
+            if (state.value(this.field) !== null) {
+                return null;
             }
+            return {
+                field: this.field,
+                code: "required",
+                params: { rule: this.text },
+                message: this.message ?? `${this.field} requires a value ` +
+                    `(${this.text})`
+            };
         }
+        if (this.compare(state, this.assertion) !== false) {
+            return null;
+        }
+        return {
+            field: this.field,
+            code: "range",
+            params: { rule: this.text },
+            message: this.message ?? `${this.field} must be ` +
+                `${this.assertion.op} ${this.assertion.operand} (${this.text})`
+        };
     }
 }
 
@@ -2242,10 +2974,14 @@ export class Entity {
     readonly type: string;
     readonly table: string;
     protected _immutable: boolean;
+    readonly serverAuthoritative: boolean;
     keyFields: Map<string, Field>;
     coreFields: Map<string, Field>;
+    rules: EntityRule[];
     contains: ContainedEntity[];
     regionalizedBy?: Field;
+    // All fields, each one after the fields it is computed from
+    private computeOrder: Field[];
     logger: Logger;
 
     static getFieldClass(kind: string,
@@ -2279,10 +3015,12 @@ export class Entity {
         this.name = config.metadata.name;
         this.type = config.spec.type;
         this._immutable = false;
+        this.serverAuthoritative = config.spec.serverAuthoritative ?? false;
         this.table = config.spec.table;
         this.keyFields = new Map();
         this.coreFields = new Map();
         this.contains = [];
+        this.computeOrder = [];
         for (const field of config.spec.keyFields) {
             const field_name = field.name;
             this.checkDuplicateField(field_name);
@@ -2295,6 +3033,8 @@ export class Entity {
             this.coreFields.set(
                 field_name, this.loadField(field, blueprints, "core"));
         }
+        this.rules = (config.spec.rules ?? []).map(
+            (rule) => new EntityRule(this, rule));
         this.logger = new Logger(`entity/${this.name}`);
     }
 
@@ -2323,7 +3063,7 @@ export class Entity {
             this.logger, context, this, filter);
         if (row.empty) {
             throw new CoreError(
-                `Record not found: ${this.name} : ${filter.where}`);
+                `Record not found: ${this.name} : ${filter}`);
         }
         const state = new State(this, row.core);
         for (const field of this.allFields) {
@@ -2375,6 +3115,9 @@ export class Entity {
             promises.push(field.create(state, context, service));
         }
         await Promise.all(promises);
+        for (const field of this.computeOrder) {
+            field.compute(state);
+        }
         return state;
     }
 
@@ -2443,6 +3186,29 @@ export class Entity {
         for (const field of this.coreFields.values()) {
             field.configure(configuration);
         }
+        this.computeOrder = this.sortByDependencies();
+    }
+
+    /* Orders the fields so that every field comes before its dependents,
+     * the fields have rejected dependency cycles when configured.
+     */
+    private sortByDependencies(): Field[] {
+        const order: Field[] = [];
+        const visited = new Set<Field>();
+        const visit = (field: Field) => {
+            if (visited.has(field)) {
+                return;
+            }
+            visited.add(field);
+            for (const dependent of field.dependents) {
+                visit(dependent);
+            }
+            order.push(field);
+        };
+        for (const field of this.allFields) {
+            visit(field);
+        }
+        return order.reverse();
     }
 
     checkDuplicateField(name: string) {
@@ -2566,10 +3332,39 @@ export class Entity {
                 field.validate(phase, state, fieldState, context));
         }
         await Promise.all(fieldPromises);
+        if (phase == "create" || phase == "update") {
+            this.checkRules(phase, state);
+        }
+    }
+
+    /* Checks all rules on "create" and "update". When 'field' is "set",
+     * only its comparisons are checked, since the other fields may not
+     * have their values yet.
+     */
+    checkRules(phase: Phase, state: State, field?: string): void {
+        const errors: FieldError[] = [];
+        for (const rule of this.rules) {
+            if (phase == "set" && (rule.field != field || rule.required)) {
+                continue;
+            }
+            const error = rule.check(state);
+            if (error) {
+                errors.push(error);
+            }
+        }
+        if (errors.length > 0) {
+            throw new ValidationError(errors);
+        }
     }
 
     async activate(phase: Phase, state: State,
                    context: IContext): Promise<SideEffects[]> {
+        if (phase == "create" || phase == "update") {
+            // Derived fields are computed after the fields they depend on
+            for (const field of this.computeOrder) {
+                field.compute(state);
+            }
+        }
         if (phase == "create" || phase == "update" || phase == "delete") {
             const fieldPromises: Promise<SideEffects>[] = [];
             for (const field of this.allFields) {
@@ -2721,9 +3516,11 @@ export class AliasValueList extends StringField {
         await super.validate(phase, state, fieldState, context);
         if (phase != "delete" && fieldState.isNotNull) {
             if (!this.values.has(fieldState.asString)) {
-                throw new CoreError(
+                throw this.invalid(
+                    "enum",
                     `${fieldState.asString} is not a valid` +
-                    ` entry for ${this.fqName}`)
+                    ` entry for ${this.fqName}`,
+                    { values: Array.from(this.values.keys()) });
             }
         }
     }
@@ -2824,9 +3621,11 @@ export class UniqueField extends StringField {
             const resultSet = await service.getQuery(
                 this.logger, context, this.entity, query);
             if (!resultSet.next() || resultSet.get("count") > 0) {
-                throw new CoreError(
+                throw this.invalid(
+                    "unique",
                     `${this.fqName}: value '${fieldState.value}' is already ` +
-                    `used by another ${this.entity.name}`);
+                    `used by another ${this.entity.name}`,
+                    { value: fieldState.value });
             }
         }
     }
@@ -2885,6 +3684,18 @@ export class AmountField extends Field {
         return super.hasChanged(oldValue, newValue);
     }
 
+    protected compareValues(left: any, right: any): number {
+        return (<BigDecimal>left).compare(<BigDecimal>right);
+    }
+
+    async validate(phase: Phase, state: State, fieldState: FieldState,
+                   context: IContext): Promise<void> {
+        await super.validate(phase, state, fieldState, context);
+        if (phase != "delete" && fieldState.isNotNull) {
+            this.validateRange(fieldState);
+        }
+    }
+
     async create(state: State, context: IContext,
                  service?: IService): Promise<void> {
         if (this.required) {
@@ -2934,7 +3745,7 @@ export class SummaryField extends AmountField {
         const resultSet = await service.getQuery(
             this.logger, context, this.containedEntity.v, query);
         let totalN = BigDecimal.toN("0");
-        while (resultSet.next()) {
+        while (await resultSet.nextRow()) {
             const amountN = BigDecimal.toN(resultSet.get(this.fieldName));
             totalN += amountN;
         }
@@ -20,7 +20,7 @@
 import {
     Row, IService, IContext, IResultSet, EmptyResultSet, Entity, DeferredToken,
     Collection, Filter, Query, Source, TypeCfg, ClassSpec, Logger, Persona,
-    State
+    State, BulkOperation, BulkResult
 } from "./core.js";
 
 export class FauxService implements IService {
@@ -39,6 +39,26 @@ export class FauxService implements IService {
         return new Row();
     }
 
+    async getHistory(logger: Logger, context: IContext, entity: Entity,
+                     id: string): Promise<Row[]> {
+        return [];
+    }
+
+    async getConflicts(logger: Logger, context: IContext, entity: Entity,
+                       filter?: Filter): Promise<Row[]> {
+        return [];
+    }
+
+    async getConflictRevisions(logger: Logger, context: IContext,
+                               entity: Entity, id: string): Promise<Row[]> {
+        return [];
+    }
+
+    async resolveConflict(logger: Logger, context: IContext, entity: Entity,
+                          id: string, rev: string, row?: Row): Promise<Row> {
+        return new Row();
+    }
+
     async getQueryOne(logger: Logger, context: IContext, entity: Entity,
                 filter: Filter): Promise<Row> {
         return new Row();
@@ -73,6 +93,11 @@ export class FauxService implements IService {
            rev: string): Promise<void> {
     }
 
+    async bulk(logger: Logger, context: IContext,
+               operations: BulkOperation[]): Promise<BulkResult[]> {
+        return [];
+    }
+
     async deleteImmutable(logger: Logger, context: IContext, entity: Entity,
                     id: string): Promise<void> {
     }
@@ -0,0 +1,542 @@
+/*
+    RZO - A Business Application Framework
+
+    Copyright (C) 2024 Frank Vanderham
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU General Public License as published by
+    the Free Software Foundation, either version 3 of the License, or
+    (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU General Public License for more details.
+
+    You should have received a copy of the GNU General Public License
+    along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import {
+    Field, FieldCfg, Entity, State, FieldState, IConfiguration, StringField,
+    IntegerField, NumberField, BooleanField, DateField, DateTimeField,
+    JsonObject, _IError
+} from "./core.js";
+
+class FormulaError extends _IError {
+    constructor(message: string, options?: ErrorOptions) {
+        super(500, message, options);
+    }
+}
+
+type FormulaNode =
+    { kind: "literal"; value: any } |
+    { kind: "field"; name: string } |
+    { kind: "call"; name: string; args: FormulaNode[] } |
+    { kind: "unary"; op: string; operand: FormulaNode } |
+    { kind: "binary"; op: string; left: FormulaNode; right: FormulaNode };
+
+type FormulaFunction = {
+    minArgs: number;
+    maxArgs: number;
+    call: (args: any[]) => any;
+};
+
+const MINUTE = 60000;
+const DAY = 24 * 60 * MINUTE;
+
+function toDate(value: any): Date | null {
+    if (value === null || value === "") {
+        return null;
+    }
+    const date = value instanceof Date ? value : new Date(value);
+    if (Number.isNaN(date.valueOf())) {
+        throw new FormulaError(`Invalid date value: '${value}'`);
+    }
+    return date;
+}
+
+function toNumber(value: any): number | null {
+    if (value === null || value === "") {
+        return null;
+    }
+    const result = Number(value);
+    if (Number.isNaN(result)) {
+        throw new FormulaError(`Invalid number value: '${value}'`);
+    }
+    return result;
+}
+
+function addTime(args: any[], unit: number): Date | null {
+    const date = toDate(args[0]);
+    const amount = toNumber(args[1]);
+    if (date === null || amount === null) {
+        return null;
+    }
+    return new Date(date.valueOf() + amount * unit);
+}
+
+function diffTime(args: any[], unit: number): number | null {
+    const to = toDate(args[0]);
+    const from = toDate(args[1]);
+    if (to === null || from === null) {
+        return null;
+    }
+    return Math.floor((to.valueOf() - from.valueOf()) / unit);
+}
+
+function mapString(args: any[], map: (value: string) => any): any {
+    return args[0] === null ? null : map(Entity.asString(args[0]));
+}
+
+/* A safe expression, evaluated against the values of the fields of a
+ * record. Examples:
+ *     concat(address1, ' ', city)
+ *     if(triptype = 'RETURN', returnts, appointmentts)
+ *     diffminutes(returnts, appointmentts) / 60
+ *
+ * Literals are numbers, quoted strings ('' escapes a quote), true, false
+ * and null. Any other name is a field. The operators are, by increasing
+ * precedence: or; and; not; =, !=, <>, >, >=, <, <=; +, -; *, /; unary -.
+ * '+' adds numbers and concatenates anything else. An arithmetic operation
+ * or comparison with a null results in null, which is false as a
+ * condition. There is no assignment and only the functions in
+ * Formula.FUNCTIONS can be called.
+ */
+export class Formula {
+    readonly text: string;
+    readonly dependencies: string[];
+    private readonly root: FormulaNode;
+    private tokens: string[];
+    private position: number;
+
+    static FUNCTIONS: Map<string, FormulaFunction> = new Map([
+        ["concat", { minArgs: 1, maxArgs: Infinity,
+            call: (args) => args.map((arg) => Entity.asString(arg)).join("")
+        }],
+        ["coalesce", { minArgs: 1, maxArgs: Infinity,
+            call: (args) => args.find((arg) => arg !== null) ?? null
+        }],
+        ["trim", { minArgs: 1, maxArgs: 1,
+            call: (args) => mapString(args, (value) => value.trim())
+        }],
+        ["upper", { minArgs: 1, maxArgs: 1,
+            call: (args) => mapString(args, (value) => value.toUpperCase())
+        }],
+        ["lower", { minArgs: 1, maxArgs: 1,
+            call: (args) => mapString(args, (value) => value.toLowerCase())
+        }],
+        ["length", { minArgs: 1, maxArgs: 1,
+            call: (args) => mapString(args, (value) => value.length)
+        }],
+        ["round", { minArgs: 1, maxArgs: 2,
+            call: (args) => {
+                const value = toNumber(args[0]);
+                const factor = 10 ** (toNumber(args[1] ?? 0) ?? 0);
+                return value === null ? null :
+                    Math.round(value * factor) / factor;
+            }
+        }],
+        ["now", { minArgs: 0, maxArgs: 0, call: () => new Date() }],
+        ["today", { minArgs: 0, maxArgs: 0,
+            call: () => {
+                const today = new Date();
+                today.setHours(0, 0, 0, 0);
+                return today;
+            }
+        }],
+        ["date", { minArgs: 1, maxArgs: 1, call: (args) => toDate(args[0]) }],
+        ["adddays", { minArgs: 2, maxArgs: 2,
+            call: (args) => addTime(args, DAY)
+        }],
+        ["addminutes", { minArgs: 2, maxArgs: 2,
+            call: (args) => addTime(args, MINUTE)
+        }],
+        ["diffdays", { minArgs: 2, maxArgs: 2,
+            call: (args) => diffTime(args, DAY)
+        }],
+        ["diffminutes", { minArgs: 2, maxArgs: 2,
+            call: (args) => diffTime(args, MINUTE)
+        }]
+    ]);
+
+    static KEYWORDS = ["and", "or", "not", "true", "false", "null"];
+
+    constructor(text: string) {
+        this.text = text;
+        this.dependencies = [];
+        this.tokens = [];
+        const tokenRegex = new RegExp(
+            "\\s*(?:(\\d+(?:\\.\\d+)?|'(?:[^']|'')*'|[A-Za-z_]\\w*|" +
+            "<>|!=|>=|<=|[-+*/=<>(),])|(\\S))", "y");
+        let match: RegExpExecArray | null;
+        while ((match = tokenRegex.exec(text))) {
+            if (match[2]) {
+                throw this.syntaxError(`unexpected '${match[2]}'`);
+            }
+            this.tokens.push(match[1]);
+        }
+        this.position = 0;
+        this.root = this.parseOr();
+        if (this.position < this.tokens.length) {
+            throw this.syntaxError(
+                `unexpected '${this.tokens[this.position]}'`);
+        }
+    }
+
+    private syntaxError(message: string): FormulaError {
+        return new FormulaError(`Formula '${this.text}': ${message}`);
+    }
+
+    private peek(): string | undefined {
+        return this.tokens[this.position];
+    }
+
+    private next(): string {
+        const token = this.tokens[this.position++];
+        if (token === undefined) {
+            throw this.syntaxError("unexpected end");
+        }
+        return token;
+    }
+
+    private expect(expected: string): void {
+        const token = this.next();
+        if (token != expected) {
+            throw this.syntaxError(
+                `expected '${expected}' instead of '${token}'`);
+        }
+    }
+
+    private parseBinary(ops: string[],
+                        operand: () => FormulaNode): FormulaNode {
+        let left = operand();
+        let op = this.peek();
+        while (op !== undefined && ops.includes(op)) {
+            this.position++;
+            left = { kind: "binary", op: op, left: left, right: operand() };
+            op = this.peek();
+        }
+        return left;
+    }
+
+    private parseOr(): FormulaNode {
+        return this.parseBinary(["or"], () => this.parseAnd());
+    }
+
+    private parseAnd(): FormulaNode {
+        return this.parseBinary(["and"], () => this.parseNot());
+    }
+
+    private parseNot(): FormulaNode {
+        if (this.peek() == "not") {
+            this.position++;
+            return { kind: "unary", op: "not", operand: this.parseNot() };
+        }
+        return this.parseComparison();
+    }
+
+    private parseComparison(): FormulaNode {
+        const left = this.parseAdditive();
+        const op = this.peek();
+        if (op !== undefined &&
+                ["=", "!=", "<>", ">", ">=", "<", "<="].includes(op)) {
+            this.position++;
+            return {
+                kind: "binary", op: op, left: left,
+                right: this.parseAdditive()
+            };
+        }
+        return left;
+    }
+
+    private parseAdditive(): FormulaNode {
+        return this.parseBinary(["+", "-"], () => this.parseMultiplicative());
+    }
+
+    private parseMultiplicative(): FormulaNode {
+        return this.parseBinary(["*", "/"], () => this.parseUnary());
+    }
+
+    private parseUnary(): FormulaNode {
+        if (this.peek() == "-") {
+            this.position++;
+            return { kind: "unary", op: "-", operand: this.parseUnary() };
+        }
+        return this.parsePrimary();
+    }
+
+    private parsePrimary(): FormulaNode {
+        const token = this.next();
+        if (token == "(") {
+            const node = this.parseOr();
+            this.expect(")");
+            return node;
+        }
+        if (/^\d/.test(token)) {
+            return { kind: "literal", value: Number(token) };
+        }
+        if (token.startsWith("'")) {
+            return {
+                kind: "literal",
+                value: token.slice(1, -1).replaceAll("''", "'")
+            };
+        }
+        switch (token) {
+            case "true":
+                return { kind: "literal", value: true };
+            case "false":
+                return { kind: "literal", value: false };
+            case "null":
+                return { kind: "literal", value: null };
+        }
+        if (!/^[A-Za-z_]/.test(token) || Formula.KEYWORDS.includes(token)) {
+            throw this.syntaxError(`unexpected '${token}'`);
+        }
+        if (this.peek() == "(") {
+            return this.parseCall(token);
+        }
+        if (!this.dependencies.includes(token)) {
+            this.dependencies.push(token);
+        }
+        return { kind: "field", name: token };
+    }
+
+    private parseCall(name: string): FormulaNode {
+        const func = Formula.FUNCTIONS.get(name);
+        if (name != "if" && !func) {
+            throw this.syntaxError(`unknown function '${name}'`);
+        }
+        this.expect("(");
+        const args: FormulaNode[] = [];
+        if (this.peek() != ")") {
+            args.push(this.parseOr());
+            while (this.peek() == ",") {
+                this.position++;
+                args.push(this.parseOr());
+            }
+        }
+        this.expect(")");
+        const minArgs = func ? func.minArgs : 2;
+        const maxArgs = func ? func.maxArgs : 3;
+        if (args.length < minArgs || args.length > maxArgs) {
+            throw this.syntaxError(
+                `wrong number of arguments for '${name}'`);
+        }
+        return { kind: "call", name: name, args: args };
+    }
+
+    private static comparable(value: any): any {
+        return value instanceof Date ? value.valueOf() : value;
+    }
+
+    private static compare(op: string, left: any, right: any): boolean {
+        const a = Formula.comparable(left);
+        const b = Formula.comparable(right);
+        switch (op) {
+            case "=":
+                return a == b;
+            case "!=":
+            case "<>":
+                return a != b;
+            case ">":
+                return a > b;
+            case ">=":
+                return a >= b;
+            case "<":
+                return a < b;
+            default:
+                return a <= b;
+        }
+    }
+
+    private static arithmetic(op: string, left: any, right: any): any {
+        if (op == "+" && (typeof left != "number" ||
+                typeof right != "number")) {
+            return Entity.asString(left) + Entity.asString(right);
+        }
+        const a = toNumber(left)!;
+        const b = toNumber(right)!;
+        switch (op) {
+            case "+":
+                return a + b;
+            case "-":
+                return a - b;
+            case "*":
+                return a * b;
+            default:
+                return b == 0 ? null : a / b;
+        }
+    }
+
+    private evaluateNode(node: FormulaNode,
+                         lookup: (name: string) => any): any {
+        switch (node.kind) {
+            case "literal":
+                return node.value;
+            case "field":
+                return lookup(node.name) ?? null;
+            case "call": {
+                if (node.name == "if") {
+                    const condition = this.evaluateNode(node.args[0], lookup);
+                    if (condition) {
+                        return this.evaluateNode(node.args[1], lookup);
+                    }
+                    return node.args.length > 2 ?
+                        this.evaluateNode(node.args[2], lookup) : null;
+                }
+                const args = node.args.map(
+                    (arg) => this.evaluateNode(arg, lookup));
+                return Formula.FUNCTIONS.get(node.name)!.call(args);
+            }
+            case "unary": {
+                const operand = this.evaluateNode(node.operand, lookup);
+                if (node.op == "not") {
+                    return !operand;
+                }
+                return operand === null ? null : -toNumber(operand)!;
+            }
+            case "binary": {
+                const left = this.evaluateNode(node.left, lookup);
+                if (node.op == "and" && !left) {
+                    return false;
+                }
+                if (node.op == "or" && left) {
+                    return true;
+                }
+                const right = this.evaluateNode(node.right, lookup);
+                if (node.op == "and" || node.op == "or") {
+                    return Boolean(right);
+                }
+                if (left === null || right === null) {
+                    return null;
+                }
+                if (["+", "-", "*", "/"].includes(node.op)) {
+                    return Formula.arithmetic(node.op, left, right);
+                }
+                return Formula.compare(node.op, left, right);
+            }
+        }
+    }
+
+    // 'lookup' returns the value of a field
+    evaluate(lookup: (name: string) => any): any {
+        try {
+            return this.evaluateNode(this.root, lookup);
+        } catch (error) {
+            throw new FormulaError(
+                `Cannot evaluate formula '${this.text}'`, { cause: error });
+        }
+    }
+}
+
+type FormulaResultType =
+    "string" | "integer" | "number" | "boolean" | "date" | "datetime";
+
+/* 'resultType' determines how the result of the formula is transformed
+ * and stored, it defaults to "string".
+ */
+type FormulaFieldCfg = FieldCfg & {
+    formula: string;
+    resultType?: FormulaResultType;
+}
+
+/* A field computed from a formula over other fields of its entity. It is
+ * recalculated whenever one of them is set, and before the record is
+ * written. Setting it directly only recalculates it.
+ */
+export class FormulaField extends Field {
+    readonly formula: Formula;
+    private readonly result: Field;
+
+    static RESULT_TYPES = new Map<FormulaResultType, typeof Field>([
+        ["string", StringField],
+        ["integer", IntegerField],
+        ["number", NumberField],
+        ["boolean", BooleanField],
+        ["date", DateField],
+        ["datetime", DateTimeField]
+    ]);
+
+    constructor(entity: Entity, config: FormulaFieldCfg) {
+        super(entity, config);
+        if (!config.formula) {
+            throw new FormulaError(`${this.fqName} requires a formula`);
+        }
+        this.formula = new Formula(config.formula);
+        const resultType = config.resultType ?? "string";
+        const resultClass = FormulaField.RESULT_TYPES.get(resultType);
+        if (!resultClass) {
+            throw new FormulaError(
+                `${this.fqName}: invalid resultType '${resultType}'`);
+        }
+        this.result = new resultClass(entity, config);
+    }
+
+    configure(configuration: IConfiguration) {
+        super.configure(configuration);
+        for (const name of this.formula.dependencies) {
+            if (name == this.name) {
+                throw new FormulaError(`${this.fqName} depends on itself`);
+            }
+            const field = this.entity.findField(name);
+            if (!field) {
+                throw new FormulaError(
+                    `${this.fqName}: formula refers to unknown field ` +
+                    `'${name}'`);
+            }
+            field.dependents.push(this);
+        }
+        const cycle = this.findCycle(this, [this.name]);
+        if (cycle) {
+            throw new FormulaError(
+                `${this.fqName}: formulas depend on each other: ` +
+                `${cycle.join(" -> ")}`);
+        }
+    }
+
+    /* Follows the dependents of 'field' back to this field. The last field
+     * of a cycle to be configured completes it, and reports it.
+     */
+    private findCycle(field: Field, path: string[]): string[] | null {
+        for (const dependent of field.dependents) {
+            if (dependent == this) {
+                return path.concat(this.name);
+            }
+            if (!path.includes(dependent.name)) {
+                const cycle = this.findCycle(
+                    dependent, path.concat(dependent.name));
+                if (cycle) {
+                    return cycle;
+                }
+            }
+        }
+        return null;
+    }
+
+    transform(value: any): any {
+        return this.result.transform(value);
+    }
+
+    transformDataForRow(data: JsonObject): void {
+        this.result.transformDataForRow(data);
+    }
+
+    protected applyValue(state: State, fieldState: FieldState,
+                         value: any): void {
+        this.compute(state);
+    }
+
+    compute(state: State): void {
+        const value = this.formula.evaluate((name) => state.value(name));
+        const fieldState = state.field(this.name);
+        const result = this.transform(value === undefined ? null : value);
+        if (Entity.asString(result) != fieldState.asString) {
+            fieldState.value = result;
+        }
+    }
+
+    get ddlCreatorClass(): string {
+        return this.result.ddlCreatorClass;
+    }
+}
@@ -21,7 +21,8 @@ import {
     Entity, IService, IResultSet, Query, MemResultSet, EmptyResultSet,
     Filter, Collection, IContext, Row, TypeCfg, DeferredToken, ServiceSource,
     ClassSpec, IConfiguration, Cfg, Authenticator, IAuthenticator, Persona,
-    Logger, State
+    Logger, State, JsonObject, BulkOperation, BulkResult, ValidationError,
+    FieldError
 } from "./core.js";
 
 import { SessionContext } from "./session.js";
@@ -32,7 +33,20 @@ class RestClientError extends Error {
         super(message, options);
     }
 
-    static fromResponse(response: Response, body?: string): RestClientError {
+    /* Failed business rules come back as a 422 listing the field errors,
+     * those are rethrown as the original ValidationError.
+     */
+    static fromResponse(response: Response, body?: string): Error {
+        if (response.status == 422 && body) {
+            try {
+                const data = JSON.parse(body);
+                if (data.errors instanceof Array) {
+                    return new ValidationError(<FieldError[]>data.errors);
+                }
+            } catch (error) {
+                // Not a structured error, report the body as-is
+            }
+        }
         const details = body ? `: ${body}` : "";
         const msg = `HTTP Error: ${response.status} ${response.statusText}` +
             `${details}`;
@@ -42,13 +56,22 @@ class RestClientError extends Error {
 
 export class RestClient implements IService, IAuthenticator {
 
+    static PAGE_SIZE = 500;
+    // Sessions are refreshed this long before they expire
+    static REFRESH_MARGIN = 1000*60*2;
+
     readonly url: string;
     sessionEntity: Cfg<Entity>;
     personas: Cfg<Map<string, Persona>>;
+    private refreshTimers: Map<string, ReturnType<typeof setTimeout>>;
+    // Sessions with user activity since their last refresh
+    private activeSessions: Set<string>;
 
     constructor(url: string) {
         this.sessionEntity = new Cfg("session");
         this.personas = new Cfg("personas");
+        this.refreshTimers = new Map();
+        this.activeSessions = new Set();
         let finalUrl = url.trim();
         while (finalUrl.endsWith("/")) {
             finalUrl = finalUrl.slice(0, -1);
@@ -231,7 +254,97 @@ export class RestClient implements IService, IAuthenticator {
         return row;
     }
 
-    queryParams(query: Query): string {
+    async getHistory(logger: Logger, context: IContext, entity: Entity,
+                     id: string): Promise<Row[]> {
+        if (!context.sessionId) {
+            throw new RestClientError("Session ID missing");
+        }
+        const targetUrl = `${this.url}/e/${entity.name}/${id}/_history`;
+        logger.info(`fetch GET - ${targetUrl}`);
+        const response = await fetch(
+            targetUrl, { headers: { "rzo-sessionid": context.sessionId } });
+        if (!response.ok) {
+            const body = await response.text();
+            throw RestClientError.fromResponse(response, body);
+        }
+        const data = await response.json();
+        return (<Object[]>data).map((revision) => Row.dataToRow(revision));
+    }
+
+    async getConflicts(logger: Logger, context: IContext, entity: Entity,
+                       filter?: Filter): Promise<Row[]> {
+        if (!context.sessionId) {
+            throw new RestClientError("Session ID missing");
+        }
+        if (filter && filter.sealed) {
+            throw new RestClientError(
+                "Cannot use RestClient with sealed filters");
+        }
+        const parameters =
+            filter && filter.notEmpty ? filter.toParameters(true) : "";
+        const targetUrl =
+            `${this.url}/e/${entity.name}/_conflicts${parameters}`;
+        logger.info(`fetch GET - ${targetUrl}`);
+        const response = await fetch(
+            targetUrl, { headers: { "rzo-sessionid": context.sessionId } });
+        if (!response.ok) {
+            const body = await response.text();
+            throw RestClientError.fromResponse(response, body);
+        }
+        const data = await response.json();
+        return (<Object[]>data).map((row) => Row.dataToRow(row, entity));
+    }
+
+    async getConflictRevisions(logger: Logger, context: IContext,
+                               entity: Entity, id: string): Promise<Row[]> {
+        if (!context.sessionId) {
+            throw new RestClientError("Session ID missing");
+        }
+        const targetUrl = `${this.url}/e/${entity.name}/${id}/_conflicts`;
+        logger.info(`fetch GET - ${targetUrl}`);
+        const response = await fetch(
+            targetUrl, { headers: { "rzo-sessionid": context.sessionId } });
+        if (!response.ok) {
+            const body = await response.text();
+            throw RestClientError.fromResponse(response, body);
+        }
+        const data = await response.json();
+        return (<Object[]>data).map(
+            (revision) => Row.dataToRow(revision, entity));
+    }
+
+    async resolveConflict(logger: Logger, context: IContext, entity: Entity,
+                          id: string, rev: string, row?: Row): Promise<Row> {
+        if (!context.sessionId) {
+            throw new RestClientError("Session ID missing");
+        }
+        const jsonData: JsonObject = { "rev": rev };
+        if (row) {
+            jsonData["row"] = Row.rowToData(row);
+        }
+        const headers = new Headers();
+        headers.set("rzo-sessionid", context.sessionId);
+        headers.set("Content-Type", "application/json");
+        const fetchRequest = {
+            method: "post",
+            body: JSON.stringify(jsonData),
+            headers: headers
+        };
+        const targetUrl = `${this.url}/e/${entity.name}/${id}/_resolve`;
+        logger.info(`fetch POST - ${targetUrl}`);
+        const response = await fetch(targetUrl, fetchRequest);
+        if (!response.ok) {
+            const body = await response.text();
+            throw RestClientError.fromResponse(response, body);
+        }
+        const data = await response.json();
+        return Row.dataToRow(data, entity);
+    }
+
+    /* When 'page' is passed, the query is requested as that page of
+     * PAGE_SIZE rows instead of using the paging set on the query itself.
+     */
+    queryParams(query: Query, page?: number): string {
         let result = "f=*";
         if (query) {
             let firstTerm = true;
@@ -243,6 +356,14 @@ export class RestClient implements IService, IAuthenticator {
                 result += query.orderToParameters(firstTerm);
                 firstTerm = false;
             }
+            if (page !== undefined) {
+                result += (firstTerm ? "?" : "&") +
+                    `l=${RestClient.PAGE_SIZE}&s=${page * RestClient.PAGE_SIZE}`;
+                firstTerm = false;
+            } else if (query.hasPaging) {
+                result += query.pagingToParameters(firstTerm);
+                firstTerm = false;
+            }
             if (query.filter && query.filter.notEmpty) {
                 if (query.filter.sealed) {
                     throw new RestClientError(
@@ -254,78 +375,71 @@ export class RestClient implements IService, IAuthenticator {
         return result;
     }
 
-    async queryCollection(logger: Logger, context: IContext,
-                          collection: Collection,
-                          query?: Query): Promise<IResultSet> {
-        if (!context.sessionId) {
-            throw new RestClientError("Session ID missing");
-        }
-        let targetUrl = this.url + "/c/" + collection.name;
-        let firstTerm = true;
-        if (query && query.fields.length > 0) {
-            targetUrl += "?f=" + query.fields.join();
-            firstTerm = false;
-        }
-        if (query?.filter && query.filter.notEmpty) {
-            if (query.filter.sealed) {
-                throw new RestClientError(
-                    "Cannot use RestClient with sealed filters");
-            }
-            targetUrl += query.filter.toParameters(firstTerm);
-            firstTerm = false;
-        }
-        if (query && query.orderBy.length > 0) {
-            targetUrl += query.orderToParameters(firstTerm);
-        }
-        const headers = new Headers();
-        const fetchRequest = {
-            method: "get",
-            headers: headers
-        };
-        fetchRequest.headers.set("rzo-sessionid", context.sessionId);
-
-        logger.info(`fetch collection GET - ${targetUrl}`);
-        const response = await fetch(targetUrl, fetchRequest);
+    private async fetchRows(logger: Logger, context: IContext,
+                            targetUrl: string): Promise<Object[] | null> {
+        logger.info(`fetch GET - ${targetUrl}`);
+        const response = await fetch(
+            targetUrl, { headers: { "rzo-sessionid": context.sessionId! } });
         if (!response.ok) {
             if (response.status == 404) {
-                return new EmptyResultSet();
+                return null;
             }
             throw new RestClientError(
                 `fetch returned status code ${response.status}`);
         }
         const responseData = await response.json();
-        // return empty if the result is not an array
+        // return null if the result is not an array
         if (!Array.isArray(responseData)) {
-            return new EmptyResultSet();
+            return null;
         }
-        const jsonArray = <Object[]>responseData;
-        return new MemResultSet(jsonArray);
+        return <Object[]>responseData;
     }
 
-    async getQuery(logger: Logger, context: IContext, entity: Entity,
-             query: Query): Promise<IResultSet> {
+    private async fetchQuery(logger: Logger, context: IContext,
+                             baseUrl: string,
+                             query?: Query): Promise<IResultSet> {
         if (!context.sessionId) {
             throw new RestClientError("Session ID missing");
         }
-        const targetUrl = this.url + "/e/" + entity.name +
-            "?" + this.queryParams(query);
-        logger.info(`fetch GET - ${targetUrl}`);
-        const response = await fetch(
-            targetUrl, { headers: { "rzo-sessionid": context!.sessionId } });
-        if (!response.ok) {
-            if (response.status == 404) {
-                return new EmptyResultSet();
+        const finalQuery = query || new Query();
+        if (finalQuery.hasPaging) {
+            const rows = await this.fetchRows(
+                logger, context, `${baseUrl}?${this.queryParams(finalQuery)}`);
+            return rows ? new MemResultSet(rows) : new EmptyResultSet();
+        }
+        // Pull page after page, so large results are never cut short
+        const allRows: Object[] = [];
+        for (let page = 0; ; page++) {
+            const rows = await this.fetchRows(
+                logger, context,
+                `${baseUrl}?${this.queryParams(finalQuery, page)}`);
+            if (!rows) {
+                if (page == 0) {
+                    return new EmptyResultSet();
+                }
+                break;
+            }
+            for (const row of rows) {
+                allRows.push(row);
+            }
+            if (rows.length < RestClient.PAGE_SIZE) {
+                break;
             }
-            throw new RestClientError(
-                `fetch returned status code ${response.status}`);
-        }
-        const responseData = await response.json();
-        // return empty if the result is not an array
-        if (!Array.isArray(responseData)) {
-            return new EmptyResultSet();
         }
-        const jsonArray = <Object[]>responseData;
-        return new MemResultSet(jsonArray);
+        return new MemResultSet(allRows);
+    }
+
+    async queryCollection(logger: Logger, context: IContext,
+                          collection: Collection,
+                          query?: Query): Promise<IResultSet> {
+        return this.fetchQuery(
+            logger, context, `${this.url}/c/${collection.name}`, query);
+    }
+
+    async getQuery(logger: Logger, context: IContext, entity: Entity,
+             query: Query): Promise<IResultSet> {
+        return this.fetchQuery(
+            logger, context, `${this.url}/e/${entity.name}`, query);
     }
 
     async put(logger: Logger, context: IContext, entity: Entity, id: string,
@@ -423,6 +537,54 @@ export class RestClient implements IService, IAuthenticator {
         }
     }
 
+    async bulk(logger: Logger, context: IContext,
+               operations: BulkOperation[]): Promise<BulkResult[]> {
+        if (!context.sessionId) {
+            throw new RestClientError("Session ID missing");
+        }
+        const jsonData = operations.map((operation) => {
+            const data: JsonObject = {
+                "action": operation.action,
+                "entity": operation.entity.name
+            };
+            if (operation.id) {
+                data["id"] = operation.id;
+            }
+            if (operation.rev) {
+                data["rev"] = operation.rev;
+            }
+            if (operation.row) {
+                data["row"] = Row.rowToData(operation.row);
+            }
+            return data;
+        });
+        const headers = new Headers();
+        headers.set("rzo-sessionid", context.sessionId);
+        headers.set("Content-Type", "application/json");
+        const fetchRequest = {
+            method: "post",
+            body: JSON.stringify({ "operations": jsonData }),
+            headers: headers
+        };
+        const targetUrl = `${this.url}/e/_bulk`;
+        logger.info(`fetch POST - ${targetUrl}`);
+        const response = await fetch(targetUrl, fetchRequest);
+        if (!response.ok) {
+            const body = await response.text();
+            throw RestClientError.fromResponse(response, body);
+        }
+        const data = await response.json();
+        return (<JsonObject[]>data["results"]).map((result, index) => {
+            return {
+                action: result["action"],
+                entity: result["entity"],
+                id: result["id"],
+                row: result["row"] ? Row.dataToRow(
+                    result["row"], operations[index].entity) : undefined
+            };
+        });
+    }
+
     get isAuthenticator(): boolean {
         return true;
     }
@@ -491,7 +653,8 @@ export class RestClient implements IService, IAuthenticator {
                 `OneTimeLogin returns unknown persona: ` +
                 `${result.get("persona")}`);
         }
-        return new SessionContext(result, persona);
+        return this.scheduleRefresh(
+            logger, new SessionContext(result, persona));
     }
 
     async createLogin(logger: Logger, context: IContext,
@@ -556,7 +719,84 @@ export class RestClient implements IService, IAuthenticator {
             throw new RestClientError(
                 `Login returns unknown persona: ${result.get("persona")}`);
         }
-        return new SessionContext(result, persona);
+        return this.scheduleRefresh(
+            logger, new SessionContext(result, persona));
+    }
+
+    private cancelRefresh(sessionId: string): void {
+        const timer = this.refreshTimers.get(sessionId);
+        if (timer !== undefined) {
+            clearTimeout(timer);
+            this.refreshTimers.delete(sessionId);
+        }
+    }
+
+    /* Called by the client on user input, such as typing in a form, that
+     * does not make any requests by itself.
+     */
+    recordActivity(context: IContext): void {
+        if (context.sessionId) {
+            this.activeSessions.add(context.sessionId);
+        }
+    }
+
+    /* Refreshes the session shortly before it expires, for as long as the
+     * server keeps extending it, so that an open client is not logged out
+     * while the user is working without making any requests. A session
+     * without activity since its last refresh is left to expire.
+     */
+    private scheduleRefresh(logger: Logger,
+                            context: SessionContext): SessionContext {
+        this.cancelRefresh(context.sessionId);
+        if (!context.maxExpiry || context.expiry >= context.maxExpiry) {
+            return context;
+        }
+        const delay = context.expiry.getTime() - Date.now() -
+            RestClient.REFRESH_MARGIN;
+        const timer = setTimeout(() => {
+            this.refreshTimers.delete(context.sessionId);
+            if (!this.activeSessions.delete(context.sessionId)) {
+                logger.info("Session idle, it is not refreshed");
+                return;
+            }
+            this.refresh(logger, context).catch((error) => {
+                logger.error(`Cannot refresh session: ${error}`);
+            });
+        }, Math.max(0, delay));
+        // A pending refresh should not keep a Node.js process alive
+        if (typeof timer == "object" && "unref" in timer) {
+            timer.unref();
+        }
+        this.refreshTimers.set(context.sessionId, timer);
+        return context;
+    }
+
+    /* Extends the session on the server, the expiry of the context is
+     * updated in place.
+     */
+    async refresh(logger: Logger, context: IContext): Promise<IContext> {
+        if (!context.sessionId) {
+            throw new RestClientError("Session ID missing");
+        }
+        const headers = new Headers();
+        headers.set("rzo-sessionid", context.sessionId);
+        const fetchRequest = {
+            method: "post",
+            headers: headers
+        };
+        const targetUrl = this.url + "/s/_refresh";
+        logger.info(`fetch POST - ${targetUrl}`);
+        const response = await fetch(targetUrl, fetchRequest);
+        if (!response.ok) {
+            const body = await response.text();
+            throw RestClientError.fromResponse(response, body);
+        }
+        const data = await response.json();
+        if (context instanceof SessionContext) {
+            context.expiry = new Date(data["expiry"]);
+            this.scheduleRefresh(logger, context);
+        }
+        return context;
     }
 
     async logout(logger: Logger, context: IContext): Promise<void> {
@@ -570,13 +810,100 @@ export class RestClient implements IService, IAuthenticator {
             method: "delete",
             headers: headers
         };
+        this.cancelRefresh(context.sessionId);
+        this.activeSessions.delete(context.sessionId);
+        const targetUrl = this.url + "/s";
+        logger.info(`fetch DELETE - ${targetUrl}`);
+        const response = await fetch(targetUrl, fetchRequest);
+        if (!response.ok) {
+            const body = await response.text();
+            throw RestClientError.fromResponse(response, body);
+        }
+    }
+
+    async switchPersona(logger: Logger, context: IContext,
+                        persona: string): Promise<IContext> {
+        if (!context.sessionId) {
+            throw new RestClientError("Session ID missing");
+        }
+        const headers = new Headers();
+        headers.set("rzo-sessionid", context.sessionId);
+        headers.set("Content-Type", "application/json");
+        const fetchRequest = {
+            method: "put",
+            headers: headers,
+            body: JSON.stringify({ "persona": persona })
+        };
+        const targetUrl = this.url + "/s";
+        logger.info(`fetch PUT - ${targetUrl}`);
+        const response = await fetch(targetUrl, fetchRequest);
+        if (!response.ok) {
+            const body = await response.text();
+            throw RestClientError.fromResponse(response, body);
+        }
+        const data = await response.json();
+        const result = Row.dataToRow(data);
+        if (result.empty) {
+            throw new RestClientError(
+                `Persona switch does not return anything`);
+        }
+        const switched = this.personas.v.get(result.get("persona"));
+        if (!switched) {
+            throw new RestClientError(
+                `Persona switch returns unknown persona: ` +
+                `${result.get("persona")}`);
+        }
+        this.cancelRefresh(context.sessionId);
+        this.activeSessions.delete(context.sessionId);
+        return this.scheduleRefresh(
+            logger, new SessionContext(result, switched));
+    }
+
+    async listSessions(logger: Logger,
+                       context: IContext): Promise<JsonObject[]> {
+        if (!context.sessionId) {
+            throw new RestClientError("Session ID missing");
+        }
+        const headers = new Headers();
+        headers.set("rzo-sessionid", context.sessionId);
+        const fetchRequest = {
+            method: "get",
+            headers: headers
+        };
         const targetUrl = this.url + "/s";
+        logger.info(`fetch GET - ${targetUrl}`);
+        const response = await fetch(targetUrl, fetchRequest);
+        if (!response.ok) {
+            const body = await response.text();
+            throw RestClientError.fromResponse(response, body);
+        }
+        return await response.json();
+    }
+
+    /* Revokes the session with the given handle (see listSessions()), or
+     * all of the user's sessions, including the current one.
+     */
+    async revokeSessions(logger: Logger, context: IContext,
+                         handle?: string): Promise<number> {
+        if (!context.sessionId) {
+            throw new RestClientError("Session ID missing");
+        }
+        const headers = new Headers();
+        headers.set("rzo-sessionid", context.sessionId);
+        const fetchRequest = {
+            method: "delete",
+            headers: headers
+        };
+        const targetUrl =
+            `${this.url}/s/${encodeURIComponent(handle || "_all")}`;
         logger.info(`fetch DELETE - ${targetUrl}`);
         const response = await fetch(targetUrl, fetchRequest);
         if (!response.ok) {
             const body = await response.text();
             throw RestClientError.fromResponse(response, body);
         }
+        const data = await response.json();
+        return data["revoked"];
     }
 }
 
@@ -22,6 +22,7 @@ import { IContext, Persona, Row, Nobody, Logger } from "../base/core.js";
 type SubjectType = {
     subject: string;
     id: string;
+    ids?: string[];
 }
 
 export interface ISessionBackendService {
@@ -29,29 +30,59 @@ export interface ISessionBackendService {
     getSession(logger: Logger, id: string): Promise<Row>;
     createSession(logger: Logger, userId: string, expiryOverride?: Date,
                   personaOverride?: Persona): Promise<Row>;
+    switchPersona(logger: Logger, id: string, persona: Persona): Promise<Row>;
     deleteSession(logger: Logger, id: string): Promise<void>;
+    deleteUserSessions(logger: Logger, userId: string): Promise<string[]>;
+    getUserSessions(logger: Logger, userId: string): Promise<Row[]>;
+    getExistingSessions(logger: Logger, ids: string[]): Promise<string[]>;
     deleteSessionsUpTo(logger: Logger, expiry: Date): Promise<void>;
+    extensionDue(context: SessionContext): boolean;
+    extendSession(logger: Logger, id: string): Promise<Row>;
 }
 
-export function serializeSubjectMap(map: Map<string, string>): string {
+/* Memberships that resolve to several ids are stored next to the single
+ * subjects, with 'ids' holding all of them.
+ */
+export function serializeSubjectMap(map: Map<string, string>,
+                                    members?: Map<string, string[]>): string {
     const arr: SubjectType[] = [];
     map.forEach((value, key) => {
         arr.push({ subject: key, id: value });
     });
+    members?.forEach((value, key) => {
+        arr.push({ subject: key, id: value.length ? value[0] : "", ids: value });
+    });
     return JSON.stringify(arr);
 }
 
+function parseSubjects(subjects?: string): SubjectType[] {
+    if (subjects && subjects.startsWith("[") && subjects.endsWith("]")) {
+        return JSON.parse(subjects) as SubjectType[];
+    }
+    return [];
+}
+
 export function deserializeSubjectMap(subjects?: string): Map<string, string> {
     const result: Map<string, string> = new Map();
-    if (subjects && subjects.startsWith("[") && subjects.endsWith("]")) {
-        const arr = JSON.parse(subjects) as SubjectType[];
-        for (const entry of arr) {
+    for (const entry of parseSubjects(subjects)) {
+        if (!entry.ids) {
             result.set(entry.subject, entry.id);
         }
     }
     return result;
 }
 
+export function deserializeMemberMap(
+    subjects?: string): Map<string, string[]> {
+    const result: Map<string, string[]> = new Map();
+    for (const entry of parseSubjects(subjects)) {
+        if (entry.ids) {
+            result.set(entry.subject, entry.ids);
+        }
+    }
+    return result;
+}
+
 export class SessionContext implements IContext {
     static DEFAULT_TIMEOUT = 1000*60*60;
 
@@ -60,21 +91,39 @@ export class SessionContext implements IContext {
     userAccount: string;
     userAccountId: string;
     expiry: Date;
+    // The absolute lifetime, activity cannot extend 'expiry' beyond it
+    maxExpiry: Date | null;
     subjects: Map<string, string>;
+    members: Map<string, string[]>;
+    scopes?: string[];
 
     constructor(row?: Row, persona?: Persona) {
         this.sessionId =  row?.get("_id") || Nobody.ID;
         this.userAccountId = row?.get("useraccountnum_id") || Nobody.ID;
         this.userAccount = row?.get("useraccountnum") || Nobody.NUM;
         this.persona = persona || Nobody.INSTANCE;
-        this.expiry = row?.get("expiry") || new Date();
+        // Sessions that come in over REST hold their dates as strings
+        this.expiry = row && row.get("expiry") ?
+            new Date(row.get("expiry")) : new Date();
+        this.maxExpiry = row && row.has("maxexpiry") && row.get("maxexpiry") ?
+            new Date(row.get("maxexpiry")) : null;
         this.subjects = deserializeSubjectMap(row?.get("subjects"));
+        this.members = deserializeMemberMap(row?.get("subjects"));
     }
 
     getSubject(key: string): string {
         return this.subjects.get(key) || "";
     }
 
+    getMembers(key: string): string[] {
+        const members = this.members.get(key);
+        if (members) {
+            return members;
+        }
+        const subject = this.getSubject(key);
+        return subject ? [subject] : [];
+    }
+
     setSubject(key: string, value: string) {
         this.subjects.set(key, value);
     }
@@ -86,7 +135,8 @@ export class SessionContext implements IContext {
             "useraccountnum": this.userAccount,
             "persona": this.persona.name,
             "expiry": this.expiry,
-            "subjects": serializeSubjectMap(this.subjects)
+            "maxexpiry": this.maxExpiry,
+            "subjects": serializeSubjectMap(this.subjects, this.members)
         });
     }
 }
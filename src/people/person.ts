@@ -62,7 +62,7 @@ export class Crew extends Entity {
             const resultSet = await service.getQuery(
                 this.logger, context, crewMemberEntity, query);
             const result: string[] = [];
-            while (resultSet.next()) {
+            while (await resultSet.nextRow()) {
                 result.push("" + resultSet.get("crewnum_id"));
             }
             return result;
@@ -152,7 +152,8 @@ export class MapLinkManualField extends StringField {
         if (phase == "set" && fieldState.dirtyNotNull) {
              const strValue = fieldState.asString;
              if (strValue && !strValue.trim()) {
-                 throw new PersonError(
+                 throw this.invalid(
+                     "format",
                      `${this.fqName} must either be empty or have at ` +
                      `least one non-space character`);
              }
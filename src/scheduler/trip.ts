@@ -100,7 +100,7 @@ export class SubjectEntity extends Entity {
             const resultSet = await service.getQuery(
                 this.logger, context, this, query);
             const result: string[] = [];
-            if (resultSet.next()) {
+            while (await resultSet.nextRow()) {
                 result.push("" + resultSet.get("_id"));
             }
             return result;
@@ -142,23 +142,6 @@ export class AppointmentTSField extends DateTimeField {
     }
 }
 
-export class ReturnTSField extends DateTimeField {
-
-    async validate(phase: Phase, state: State, fieldState: FieldState,
-                   context: IContext): Promise<void> {
-
-        await super.validate(phase, state, fieldState, context);
-        if (phase == "set" && fieldState.dirtyNotNull) {
-            const appointmentts = state.field("appointmentts");
-            if (appointmentts.isNotNull &&
-                    fieldState.value <= appointmentts.value) {
-                throw new TripError(
-                    "Return date/time must be after the appointment date/time");
-            }
-        }
-    }
-}
-
 export class TripTypeField extends AliasValueList {
 
     async activate(phase: Phase, state: State, fieldState: FieldState,
@@ -181,23 +164,7 @@ export class TripTypeField extends AliasValueList {
     }
 }
 
+/* The return date/time rules are declared in the trip configuration.
+ */
 export class Trip extends Entity {
-
-    async validate(phase: Phase, state: State,
-                   context: IContext): Promise<void> {
-
-        await super.validate(phase, state, context);
-        const returnts = state.field("returnts");
-        if (state.field("triptype").value == "RETURN" && returnts.isNull) {
-            throw new TripError(
-                "Return date/time is required when trip is RETURN");
-        }
-        const appointmentts = state.field("appointmentts");
-        if (returnts.isNotNull && appointmentts.isNotNull &&
-                returnts.value <= appointmentts.value) {
-            throw new TripError(
-                "Return date/time must be after the appointment date/time");
-        }
-    }
 }
-
@@ -19,14 +19,18 @@
 
 import { IncomingMessage, IncomingHttpHeaders, ServerResponse } from "http";
 
+import { createHash } from "node:crypto";
+
 import {
     _IError, Entity, Cfg, DaemonWorker, IService, IPolicyConfiguration,
     TypeCfg, ClassSpec, IConfiguration, Persona, Row, Query, Filter,
     OrderBy, Collection, IResultSet, DeferredToken, JsonObject, Logger,
-    IContext, ServiceSource
+    IContext, ServiceSource, BulkOperation, State, FieldError, ValidationError
 } from "../base/core.js";
 
-import { ICache } from "./cache.js";
+import { ICache, USERACCOUNT_TOPIC } from "./cache.js";
+import { ILoginGuard } from "./throttle.js";
+import { IApiKeyService } from "./apikey.js";
 
 import { SessionContext, ISessionBackendService } from "../base/session.js";
 
@@ -35,15 +39,18 @@ type ErrorType = {
     message: string;
     causeType?: string;
     cause?: string;
+    errors?: FieldError[];
 }
 
 function toRestError(statusCode: number, type: string, message:string,
-                     causeType?: string, cause?: string): string {
+                     causeType?: string, cause?: string,
+                     errors?: FieldError[]): string {
     const err: ErrorType = {
         type: type,
         message: message,
         causeType: causeType,
-        cause: cause
+        cause: cause,
+        errors: errors
     };
     return JSON.stringify(err);
 }
@@ -122,17 +129,108 @@ function stringToQuery(input?: string): Query {
                 }
             });
         }
+        /* Paging parameters precede the where clause, i.e.
+         * f=a,b&o=a+&l=100&s=200&q=a&w=...
+         */
+        const paging = wherePos >= 0 ? safeInput.substring(0, wherePos) :
+            safeInput;
+        const limit = pagingParameter(paging, "l");
+        const skip = pagingParameter(paging, "s");
         if (wherePos >= 0) {
             const filter = new Filter();
             filter.parseParameters(input.substring(wherePos));
-            return new Query(fields, filter, orderBy);
+            return new Query(fields, filter, orderBy).setPaging(limit, skip);
         } else {
-            return new Query(fields, undefined, orderBy);
+            return new Query(fields, undefined, orderBy).setPaging(
+                limit, skip);
         }
     }
     return new Query();
 }
 
+function pagingParameter(input: string, name: string): number | undefined {
+    const match = input.match(new RegExp(`(?:^|&)${name}=([^&]*)`));
+    if (!match) {
+        return undefined;
+    }
+    if (!/^\d+$/.test(match[1])) {
+        throw new AdapterError(
+            `Invalid paging parameter '${name}': ${match[1]}`, 400);
+    }
+    return Number.parseInt(match[1]);
+}
+
+async function writeChunk(response: ServerResponse,
+                          chunk: string): Promise<void> {
+    if (!response.write(chunk)) {
+        // Wait for the client to catch up, or to go away
+        await new Promise<void>((resolve) => {
+            const done = () => {
+                response.off("drain", done);
+                response.off("close", done);
+                resolve();
+            };
+            response.on("drain", done);
+            response.on("close", done);
+        });
+        if (response.destroyed) {
+            throw new AdapterError("Client closed the connection");
+        }
+    }
+}
+
+/* Streams every page of the result set to the response as a JSON array, or as
+ * newline delimited JSON when the client accepts 'application/x-ndjson'.
+ * Each page is guarded before any of its rows are written, so only one page
+ * is held in memory at a time. The guard returns the rows of the page that
+ * may be read, and every row passes through 'mask' on its way out.
+ */
+async function streamResultSet(logger: Logger, request: IncomingMessage,
+                               response: ServerResponse, resultSet: IResultSet,
+                               guard: (page: IResultSet) => IResultSet,
+                               mask: (row: Row) => Row): Promise<void> {
+    const accept = getHeader(request.headers, "accept") || "";
+    const ndjson = accept.includes("application/x-ndjson");
+    response.setHeader(
+        "Content-Type", ndjson ? "application/x-ndjson" : "application/json");
+    let first = true;
+    try {
+        do {
+            resultSet.rewind();
+            const page = guard(resultSet);
+            page.rewind();
+            while (page.next()) {
+                const json = JSON.stringify(
+                    Row.rowToData(mask(page.getRow())));
+                if (ndjson) {
+                    await writeChunk(response, json + "\n");
+                } else {
+                    await writeChunk(response, (first ? "[" : ",") + json);
+                }
+                first = false;
+            }
+        } while (await resultSet.fetchNextPage());
+    } catch (error) {
+        if (!response.headersSent) {
+            throw error;
+        }
+        /* Part of the response is already out, so an error response is no
+         * longer possible. Cut the connection, so the client cannot mistake
+         * the partial response for a complete one.
+         */
+        if (error instanceof Error) {
+            logger.exc(error);
+        }
+        response.destroy();
+        return;
+    }
+    if (ndjson) {
+        response.end();
+    } else {
+        response.end(first ? "[]" : "]");
+    }
+}
+
 export class AdapterError extends _IError {
 
     constructor(message: string, code?: number, options?: ErrorOptions) {
@@ -148,15 +246,18 @@ export class AdapterError extends _IError {
             statusCode = error.code;
             const type = error.name;
             const message = error.message;
+            const errors = error instanceof ValidationError ?
+                error.errors : undefined;
             if (error.cause && error.cause instanceof Error) {
                 const cause = <Error>error.cause;
                 const causeType = cause.name;
                 const causeMsg = cause.message;
                 msg = toRestError(
-                    statusCode, type, message, causeType, causeMsg);
+                    statusCode, type, message, causeType, causeMsg, errors);
                 logger.exc(cause);
             } else {
-                msg = toRestError(statusCode, type, message);
+                msg = toRestError(
+                    statusCode, type, message, undefined, undefined, errors);
                 logger.exc(<Error>error);
             }
         } else if (exc instanceof Error) {
@@ -193,9 +294,16 @@ export type AdapterSpec = ClassSpec & {
     source: string;
 }
 
+/* 'trustedProxies' lists the addresses of reverse proxies whose
+ * X-Forwarded-For header is trusted for the client address, without it
+ * the address of the connection is used.
+ */
 export type SessionAwareAdapterSpec = AdapterSpec & {
     cache: string;
     sessionBackendSource: string;
+    loginGuard?: string;
+    apiKeys?: string;
+    trustedProxies?: string[];
 }
 
 export class BaseAdapter extends DaemonWorker implements IAdapter {
@@ -279,14 +387,27 @@ export class SessionAwareAdapter extends BaseAdapter {
     policyConfig: Cfg<IPolicyConfiguration>;
     sessionBackend: Cfg<ISessionBackendService>;
     sessionCache: Cfg<ICache>;
+    loginGuard: Cfg<ILoginGuard> | null;
+    apiKeys: Cfg<IApiKeyService> | null;
+    readonly trustedProxies: string[];
+
+    static normalizeAddress(address: string): string {
+        return address.trim().replace(/^::ffff:/, "");
+    }
 
     constructor(config: TypeCfg<SessionAwareAdapterSpec>,
                 blueprints: Map<string, any>) {
         super(config, blueprints);
+        this.trustedProxies = (config.spec.trustedProxies || []).map(
+            (address) => SessionAwareAdapter.normalizeAddress(address));
         this.personas = new Cfg("personas");
         this.policyConfig = new Cfg("policyconfig");
         this.sessionCache = new Cfg(config.spec.cache);
         this.sessionBackend = new Cfg(config.spec.sessionBackendSource);
+        this.loginGuard = config.spec.loginGuard ?
+            new Cfg(config.spec.loginGuard) : null;
+        this.apiKeys = config.spec.apiKeys ?
+            new Cfg(config.spec.apiKeys) : null;
     }
 
     configure(configuration: IConfiguration): void {
@@ -321,9 +442,155 @@ export class SessionAwareAdapter extends BaseAdapter {
                 `ISessionBackendService`);
         }
         this.sessionBackend.v = <ISessionBackendService>sessionBackendService;
+
+        if (this.loginGuard) {
+            const guard: unknown = configuration.workers.get(
+                this.loginGuard.name);
+            if (!guard || !((<any>guard).isLoginGuard)) {
+                throw new AdapterError(
+                    `Invalid BaseAdapter: ${this.name}: worker ` +
+                    `${this.loginGuard.name} does not exist or it is not a ` +
+                    `login guard`);
+            }
+            this.loginGuard.v = <ILoginGuard>guard;
+        }
+
+        if (this.apiKeys) {
+            const apiKeys: unknown = configuration.workers.get(
+                this.apiKeys.name);
+            if (!apiKeys || !((<any>apiKeys).isApiKeyService)) {
+                throw new AdapterError(
+                    `Invalid BaseAdapter: ${this.name}: worker ` +
+                    `${this.apiKeys.name} does not exist or it is not an ` +
+                    `API key service`);
+            }
+            this.apiKeys.v = <IApiKeyService>apiKeys;
+        }
+    }
+
+    /* Behind a trusted proxy, the client is the last address in
+     * X-Forwarded-For that is not a trusted proxy itself. Proxies append
+     * to the header, so the addresses before it could be forged.
+     */
+    protected clientAddress(request: IncomingMessage): string {
+        const remote = SessionAwareAdapter.normalizeAddress(
+            request.socket.remoteAddress || "unknown");
+        const forwarded = getHeader(request.headers, "x-forwarded-for");
+        if (!forwarded || !this.trustedProxies.includes(remote)) {
+            return remote;
+        }
+        const hops = forwarded.split(",").map(
+            (hop) => SessionAwareAdapter.normalizeAddress(hop))
+            .filter((hop) => hop);
+        for (let index = hops.length - 1; index >= 0; index--) {
+            if (!this.trustedProxies.includes(hops[index])) {
+                return hops[index];
+            }
+        }
+        return hops.length > 0 ? hops[0] : remote;
+    }
+
+    /* Runs a login attempt through the configured login guard, if any.
+     */
+    protected async guardLogin<T>(request: IncomingMessage, username: string,
+                                  attempt: () => Promise<T>): Promise<T> {
+        if (!this.loginGuard) {
+            return attempt();
+        }
+        const address = this.clientAddress(request);
+        return this.loginGuard.v.guard(
+            this.logger, username, address, attempt);
+    }
+
+    /* Throttles a request of the given kind through the configured login
+     * guard, if any.
+     */
+    protected async guardRequest(request: IncomingMessage, kind: string,
+                                 username: string): Promise<void> {
+        if (this.loginGuard) {
+            const address = this.clientAddress(request);
+            await this.loginGuard.v.guardRequest(
+                this.logger, kind, username, address);
+        }
+    }
+
+    /* Session ids are credentials, so listed sessions are identified by a
+     * handle derived from the id instead.
+     */
+    static sessionHandle(sessionId: string): string {
+        return createHash("sha256").update(sessionId).digest("hex")
+            .substring(0, 32);
+    }
+
+    protected async listSessions(context: IContext,
+                                 userId: string): Promise<JsonObject[]> {
+        const rows = await this.sessionBackend.v.getUserSessions(
+            this.logger, userId);
+        return rows.map((row) => {
+            return {
+                "handle": SessionAwareAdapter.sessionHandle(
+                    row.getString("_id")),
+                "persona": row.get("persona"),
+                "expiry": row.get("expiry"),
+                "maxexpiry": row.get("maxexpiry"),
+                "updated": row.get("updated"),
+                "current": row.getString("_id") == context.sessionId
+            };
+        });
+    }
+
+    /* Revocations delete the session from the backend and from the cache,
+     * which broadcasts the delete to the other servers.
+     */
+    protected async revokeSession(userId: string,
+                                  handle: string): Promise<void> {
+        const rows = await this.sessionBackend.v.getUserSessions(
+            this.logger, userId);
+        const row = rows.find((row) => SessionAwareAdapter.sessionHandle(
+            row.getString("_id")) == handle);
+        if (!row) {
+            throw new AdapterError(`Session not found: ${handle}`, 404);
+        }
+        this.sessionCache.v.delete(row.getString("_id"));
+        await this.sessionBackend.v.deleteSession(
+            this.logger, row.getString("_id"));
+    }
+
+    /* Also invalidates the cache entries owned by the useraccountnum, like
+     * the ReplicationAdapter's Basic credentials, on all servers.
+     */
+    protected async revokeUserSessions(userId: string,
+                                       username: string): Promise<number> {
+        const sessionIds = await this.sessionBackend.v.deleteUserSessions(
+            this.logger, userId);
+        for (const sessionId of sessionIds) {
+            this.sessionCache.v.delete(sessionId);
+        }
+        this.sessionCache.v.publish(USERACCOUNT_TOPIC, username);
+        return sessionIds.length;
+    }
+
+    /* Authenticates an 'Authorization: Bearer' API key, if API keys are
+     * configured. Returns null when the request does not carry one.
+     */
+    protected async apiKeyContext(
+        request: IncomingMessage): Promise<SessionContext | null> {
+        if (!this.apiKeys) {
+            return null;
+        }
+        const authHeader = getHeader(request.headers, "Authorization");
+        if (!authHeader || !authHeader.toUpperCase().startsWith("BEARER ")) {
+            return null;
+        }
+        const key = authHeader.substring("BEARER ".length).trim();
+        return this.apiKeys.v.authenticate(this.logger, key);
     }
 
     async pullContext(request: IncomingMessage): Promise<SessionContext> {
+        const keyContext = await this.apiKeyContext(request);
+        if (keyContext) {
+            return keyContext;
+        }
         const sessionId = getHeader(request.headers, "rzo-sessionid");
         if (!sessionId) {
             throw new AdapterError("Missing 'rzo-sessionid'");
@@ -347,15 +614,39 @@ export class SessionAwareAdapter extends BaseAdapter {
                 throw new AdapterError(
                     `Invalid persona: ${personaName}`, 403);
             }
-            return new SessionContext(row, persona);
+            context = new SessionContext(row, persona);
+        }
+        if (this.sessionBackend.v.extensionDue(context)) {
+            this.extendSession(context).catch((error) => {
+                this.logger.error(
+                    `Cannot extend session of ${context.userAccount}`);
+                this.logger.exc(error);
+            });
         }
         return context;
     }
+
+    /* Activity slides the expiry of a session forward, the context is
+     * updated in place so the cached copy follows.
+     */
+    protected async extendSession(
+        context: SessionContext): Promise<SessionContext> {
+        const row = await this.sessionBackend.v.extendSession(
+            this.logger, context.sessionId);
+        context.expiry = new Date(row.get("expiry"));
+        return context;
+    }
 }
 
 export class EntityAdapter extends SessionAwareAdapter {
     entities: Cfg<Map<string, Entity>>;
 
+    static HISTORY = "_history";
+    static DIFF = "_diff";
+    static CONFLICTS = "_conflicts";
+    static RESOLVE = "_resolve";
+    static BULK = "_bulk";
+
     constructor(config: TypeCfg<SessionAwareAdapterSpec>,
                 blueprints: Map<string, any>) {
         super(config, blueprints);
@@ -376,13 +667,162 @@ export class EntityAdapter extends SessionAwareAdapter {
             this.logger, context, entity, id, rev);
         if (row && !row.empty) {
             this.policyConfig.v.guardRow(context, resource, "get", row);
-            response.end(JSON.stringify(Row.rowToData(row)));
+            response.end(JSON.stringify(Row.rowToData(
+                this.policyConfig.v.maskRow(context, resource, row))));
         } else {
             respondWithRestError(
                 response, 404, "NotFound", `${entity.name} : ${id}`);
         }
     }
 
+    /* Loads a revision for the audit trail endpoints, through the same
+     * policy checks and masking as a regular get.
+     */
+    private async getRevision(context: IContext, entity: Entity, id: string,
+                              rev: string): Promise<Row> {
+        const resource = `entity/${entity.name}`;
+        const row = await this.source.v.getOne(
+            this.logger, context, entity, id, rev);
+        if (!row || row.empty) {
+            throw new AdapterError(
+                `Revision not found: ${entity.name} : ${id} : ${rev}`, 404);
+        }
+        this.policyConfig.v.guardRow(context, resource, "get", row);
+        return this.policyConfig.v.maskRow(context, resource, row);
+    }
+
+    async getHistory(context: IContext, response: ServerResponse,
+                     entity: Entity, id: string): Promise<void> {
+        this.policyConfig.v.guardResource(
+            context, `entity/${entity.name}`, "get");
+        const history = await this.source.v.getHistory(
+            this.logger, context, entity, id);
+        const winner = history.find((revision) => revision.get("iswinner"));
+        if (!winner) {
+            throw new AdapterError(`${entity.name} : ${id}`, 404);
+        }
+        // Deleted records keep their history, so guard the winning revision
+        await this.getRevision(context, entity, id, winner.getString("_rev"));
+        response.end(JSON.stringify(
+            history.map((revision) => Row.rowToData(revision))));
+    }
+
+    /* Compares the field values of two revisions. Without 'to', the winning
+     * revision is used, without 'from', the parent of 'to'.
+     */
+    async getDiff(context: IContext, response: ServerResponse,
+                  entity: Entity, id: string,
+                  parameters: URLSearchParams): Promise<void> {
+        this.policyConfig.v.guardResource(
+            context, `entity/${entity.name}`, "get");
+        const history = await this.source.v.getHistory(
+            this.logger, context, entity, id);
+        const toRev = parameters.get("to") || history.find(
+            (revision) => revision.get("iswinner"))?.getString("_rev");
+        const toRevision = history.find(
+            (revision) => revision.get("_rev") == toRev);
+        if (!toRev || !toRevision) {
+            throw new AdapterError(`${entity.name} : ${id} : ${toRev}`, 404);
+        }
+        const fromRev = parameters.get("from") ||
+            toRevision.getString("parent");
+        if (!fromRev) {
+            throw new AdapterError(
+                `Revision ${toRev} has no parent to compare with`, 400);
+        }
+        const fromRow = await this.getRevision(context, entity, id, fromRev);
+        const toRow = await this.getRevision(context, entity, id, toRev);
+        const changes: JsonObject[] = [];
+        for (const column of entity.allFieldColumns) {
+            const fromValue = fromRow.has(column) ? fromRow.get(column) : null;
+            const toValue = toRow.has(column) ? toRow.get(column) : null;
+            if (JSON.stringify(fromValue) != JSON.stringify(toValue)) {
+                changes.push(
+                    { "field": column, "from": fromValue, "to": toValue });
+            }
+        }
+        response.end(JSON.stringify({
+            "from": fromRev,
+            "to": toRev,
+            "changes": changes
+        }));
+    }
+
+    async getConflicts(context: IContext, response: ServerResponse,
+                       entity: Entity, parameters?: string): Promise<void> {
+        const resource = `entity/${entity.name}`;
+        this.policyConfig.v.guardResource(context, resource, "get");
+        let filter: Filter | undefined;
+        if (parameters) {
+            filter = new Filter();
+            filter.parseParameters(decodeURIComponent(parameters));
+        }
+        filter = this.policyConfig.v.createFilter(context, entity, filter);
+        const rows = await this.source.v.getConflicts(
+            this.logger, context, entity, filter);
+        response.end(JSON.stringify(rows.map((row) => Row.rowToData(
+            this.policyConfig.v.maskRow(context, resource, row)))));
+    }
+
+    async getConflictRevisions(context: IContext, response: ServerResponse,
+                               entity: Entity, id: string): Promise<void> {
+        const resource = `entity/${entity.name}`;
+        this.policyConfig.v.guardResource(context, resource, "get");
+        const revisions = await this.source.v.getConflictRevisions(
+            this.logger, context, entity, id);
+        if (!revisions.length) {
+            throw new AdapterError(
+                `No open conflicts: ${entity.name} : ${id}`, 404);
+        }
+        response.end(JSON.stringify(revisions.map((revision) => {
+            this.policyConfig.v.guardRow(context, resource, "get", revision);
+            return Row.rowToData(
+                this.policyConfig.v.maskRow(context, resource, revision));
+        })));
+    }
+
+    /* Keeps conflicting revision 'rev' and tombstones all others. A 'row'
+     * in the payload is the merged record, stored on top of 'rev' like any
+     * other put of it.
+     */
+    async resolveConflict(context: IContext, response: ServerResponse,
+                          entity: Entity, id: string,
+                          payload: JsonObject): Promise<void> {
+        const resource = `entity/${entity.name}`;
+        this.policyConfig.v.guardResource(context, resource, "put");
+        const rev = payload["rev"];
+        if (!rev || typeof rev != "string") {
+            throw new AdapterError("Missing 'rev' to resolve to", 400);
+        }
+        const kept = await this.source.v.getOne(
+            this.logger, context, entity, id, rev);
+        if (!kept || kept.empty) {
+            throw new AdapterError(
+                `Revision not found: ${entity.name} : ${id} : ${rev}`, 404);
+        }
+        this.policyConfig.v.guardRow(context, resource, "put", kept);
+        let merged: Row | undefined;
+        if (payload["row"]) {
+            merged = Row.dataToRow(payload["row"], entity);
+            if (merged.empty) {
+                throw new AdapterError("Cannot parse merged row");
+            }
+            for (const flag of ["_conflict", "_winner", "_notleaf"]) {
+                merged.deleteNoCheck(flag);
+            }
+            if (!merged.has("_att")) {
+                merged.add("_att", kept.has("_att") ? kept.get("_att") : null);
+            }
+            merged.updateOrAdd("_rev", rev);
+            merged = await this.prepareWrite(
+                context, entity, "put", merged, id);
+        }
+        const output = await this.source.v.resolveConflict(
+            this.logger, context, entity, id, rev, merged);
+        response.end(JSON.stringify(Row.rowToData(
+            this.policyConfig.v.maskRow(context, resource, output))));
+    }
+
     async getQuery(context: IContext, request: IncomingMessage,
                    response: ServerResponse, entity: Entity,
                    queryStr: string): Promise<void> {
@@ -392,16 +832,15 @@ export class EntityAdapter extends SessionAwareAdapter {
             const resource = `entity/${entity.name}`;
             this.policyConfig.v.guardResource(context, resource, "get");
             const query = stringToQuery(queryStr);
+            query.filter = this.policyConfig.v.createFilter(
+                context, entity, query.filter);
             const resultSet = await this.source.v.getQuery(
                 this.logger, context, entity, query);
-            this.policyConfig.v.guardResultSet(context, resource, resultSet);
-            resultSet.rewind();
-            const result: any[] = [];
-            while (resultSet.next()) {
-                const row = resultSet.getRow();
-                result.push(Row.rowToData(row));
-            }
-            response.end(JSON.stringify(result));
+            await streamResultSet(
+                this.logger, request, response, resultSet,
+                (page) => this.policyConfig.v.guardResultSet(
+                    context, resource, page),
+                (row) => this.policyConfig.v.maskRow(context, resource, row));
         } catch (error) {
             AdapterError.toResponse(this.logger, error, response);
         }
@@ -415,10 +854,36 @@ export class EntityAdapter extends SessionAwareAdapter {
          * GET         e entity uuid                    Get winning version
          * GET         e entity uuid   ?     rev=1-xxx  Get specific version
          * GET         e entity  ?   filter             Query
+         * GET         e entity uuid _history           Revision history
+         * GET         e entity uuid  _diff  ?  from=&to=
+         *                                              Field changes
+         * GET         e entity _conflicts              Records in conflict
+         * GET         e entity _conflicts ? filter     Idem, filtered
+         * GET         e entity uuid _conflicts         Conflicting revisions
          */
         try {
             const context = await this.pullContext(request);
-            if (uriElements.length == 3) {
+            if (uriElements[2] == EntityAdapter.CONFLICTS &&
+                (uriElements.length == 3 ||
+                 (uriElements.length == 5 && uriElements[3] == "?"))) {
+                await this.getConflicts(
+                    context, response, entity, uriElements[4]);
+            } else if (uriElements.length == 4 &&
+                       uriElements[3] == EntityAdapter.CONFLICTS) {
+                await this.getConflictRevisions(
+                    context, response, entity, uriElements[2]);
+            } else if (uriElements.length == 4 &&
+                uriElements[3] == EntityAdapter.HISTORY) {
+                await this.getHistory(
+                    context, response, entity, uriElements[2]);
+            } else if (uriElements.length >= 4 &&
+                       uriElements[3] == EntityAdapter.DIFF &&
+                       (uriElements.length == 4 ||
+                        (uriElements.length == 6 && uriElements[4] == "?"))) {
+                await this.getDiff(
+                    context, response, entity, uriElements[2],
+                    new URLSearchParams(uriElements[5] || ""));
+            } else if (uriElements.length == 3) {
                 await this.getOne(
                     context, request, response, entity, uriElements[2]);
             } else if (uriElements.length == 4 && uriElements[2] == "?") {
@@ -449,7 +914,7 @@ export class EntityAdapter extends SessionAwareAdapter {
             const row = await this.source.v.getOne(
                 this.logger, context, entity, id, version);
             if (row && !row.empty) {
-                this.policyConfig.v.guardRow(context, resource, "delete", row);
+                await this.prepareDelete(context, entity, row);
                 await this.source.v.delete(
                     this.logger, context, entity, id, version);
                 response.end(`{"id": "${id}}"`);
@@ -462,23 +927,242 @@ export class EntityAdapter extends SessionAwareAdapter {
         }
     }
 
+    /* Rebuilds a posted or put row through its entity: the changed fields
+     * are set one by one, after which the entity is validated and
+     * activated.
+     */
+    private async rebuildRow(context: IContext, entity: Entity, row: Row,
+                             id?: string): Promise<Row> {
+        let state: State;
+        if (id) {
+            const current = await this.source.v.getOne(
+                this.logger, context, entity, id,
+                row.has("_rev") ? row.getString("_rev") : undefined);
+            if (!current || current.empty) {
+                throw new AdapterError(`${entity.name} : ${id}`, 404);
+            }
+            state = entity.rowToState(current);
+        } else {
+            /* Without a service, create() leaves the generated fields, like
+             * sequence numbers, to the posted row instead of drawing new
+             * values.
+             */
+            state = await entity.create(context);
+        }
+        const errors: FieldError[] = [];
+        for (const field of entity.allFields) {
+            if (!row.has(field.name)) {
+                continue;
+            }
+            const value = row.get(field.name);
+            try {
+                if (Entity.asString(state.value(field.name)) !=
+                    Entity.asString(field.transform(value))) {
+                    await entity.setValue(state, field.name, value, context);
+                }
+            } catch (error) {
+                if (error instanceof ValidationError) {
+                    errors.push(...error.errors);
+                } else {
+                    errors.push({
+                        field: field.name,
+                        code: "invalid",
+                        message: error instanceof Error ?
+                            error.message : String(error)
+                    });
+                }
+            }
+        }
+        if (errors.length) {
+            throw new ValidationError(errors);
+        }
+        const phase = id ? "update" : "create";
+        try {
+            await entity.validate(phase, state, context);
+        } catch (error) {
+            if (error instanceof ValidationError) {
+                throw error;
+            }
+            const message = error instanceof Error ?
+                error.message : String(error);
+            throw new ValidationError(
+                [{ code: "invalid", message: message }], { cause: error });
+        }
+        await entity.activate(phase, state, context);
+        return entity.stateToRow(state);
+    }
+
+    /* Field and row policy checks for a post or put of 'row', returns the
+     * row to store. The row is rebuilt through its entity when the entity
+     * is server-authoritative or when 'validate' asks for it.
+     */
+    private async prepareWrite(context: IContext, entity: Entity,
+                               action: "post" | "put", row: Row,
+                               id?: string,
+                               validate?: boolean): Promise<Row> {
+        const policyTarget = `entity/${entity.name}`;
+        const current = id && this.policyConfig.v.hasFieldRules(
+            context, policyTarget, action) ?
+            await this.source.v.getOne(
+                this.logger, context, entity, id,
+                row.has("_rev") ? row.getString("_rev") : undefined) :
+            undefined;
+        this.policyConfig.v.guardFields(
+            context, policyTarget, action, row, current);
+        if (entity.serverAuthoritative || validate) {
+            row = await this.rebuildRow(context, entity, row, id);
+        }
+        this.policyConfig.v.guardRow(context, policyTarget, action, row);
+        return row;
+    }
+
+    // Row policy checks and business rules for deleting 'current'
+    private async prepareDelete(context: IContext, entity: Entity,
+                                current: Row,
+                                validate?: boolean): Promise<void> {
+        this.policyConfig.v.guardRow(
+            context, `entity/${entity.name}`, "delete", current);
+        if (entity.serverAuthoritative || validate) {
+            const state = entity.rowToState(current);
+            try {
+                await entity.validate("delete", state, context);
+            } catch (error) {
+                if (error instanceof ValidationError) {
+                    throw error;
+                }
+                const message = error instanceof Error ?
+                    error.message : String(error);
+                throw new ValidationError(
+                    [{ code: "invalid", message: message }], { cause: error });
+            }
+            await entity.activate("delete", state, context);
+        }
+    }
+
+    /* Unlike single writes, every bulk item runs through its entity's
+     * validation, whether or not the entity is server-authoritative.
+     */
+    private async bulkOperation(context: IContext,
+                                item: JsonObject): Promise<BulkOperation> {
+        const action = item["action"];
+        if (action != "post" && action != "put" && action != "delete") {
+            throw new AdapterError(`Invalid action: ${action}`, 400);
+        }
+        const entity = this.entities.v.get(item["entity"]);
+        if (!entity) {
+            throw new AdapterError(`Invalid entity: ${item["entity"]}`, 404);
+        }
+        const resource = `entity/${entity.name}`;
+        this.policyConfig.v.guardResource(context, resource, action);
+        const id = item["id"];
+        if (action != "post" && (!id || typeof id != "string")) {
+            throw new AdapterError(`Missing 'id' to ${action}`, 400);
+        }
+        if (action == "delete") {
+            const rev = item["rev"];
+            if (!rev || typeof rev != "string") {
+                throw new AdapterError("Missing 'rev' to delete", 400);
+            }
+            const current = await this.source.v.getOne(
+                this.logger, context, entity, id, rev);
+            if (!current || current.empty) {
+                throw new AdapterError(`${entity.name} : ${id}`, 404);
+            }
+            await this.prepareDelete(context, entity, current, true);
+            return { action: action, entity: entity, id: id, rev: rev };
+        }
+        const row = Row.dataToRow(item["row"], entity);
+        if (row.empty) {
+            throw new AdapterError("Cannot parse row", 400);
+        }
+        return {
+            action: action,
+            entity: entity,
+            id: id,
+            row: await this.prepareWrite(
+                context, entity, action, row, id, true)
+        };
+    }
+
+    /* Checks all operations before any is written, the source then applies
+     * them in a single transaction and rolls back on the first failure.
+     */
+    async bulk(context: IContext, response: ServerResponse,
+               payload: JsonObject): Promise<void> {
+        const items = payload["operations"];
+        if (!(items instanceof Array) || !items.length) {
+            throw new AdapterError("Missing 'operations' to apply", 400);
+        }
+        const operations: BulkOperation[] = [];
+        for (const [index, item] of (<JsonObject[]>items).entries()) {
+            try {
+                operations.push(await this.bulkOperation(context, item));
+            } catch (error) {
+                if (error instanceof ValidationError) {
+                    throw new ValidationError(error.errors.map((fieldError) => {
+                        return {
+                            field: fieldError.field,
+                            code: fieldError.code,
+                            params: fieldError.params,
+                            message: `Bulk operation ${index}: ` +
+                                fieldError.message
+                        };
+                    }), { cause: error });
+                }
+                const message = error instanceof Error ?
+                    error.message : String(error);
+                throw new AdapterError(
+                    `Bulk operation ${index} rejected: ${message}`,
+                    error instanceof _IError ? error.code : 400,
+                    { cause: error });
+            }
+        }
+        const results = await this.source.v.bulk(
+            this.logger, context, operations);
+        response.end(JSON.stringify({
+            "results": results.map((result) => {
+                const data: JsonObject = {
+                    "action": result.action,
+                    "entity": result.entity,
+                    "id": result.id
+                };
+                if (result.row) {
+                    data["row"] = Row.rowToData(this.policyConfig.v.maskRow(
+                        context, `entity/${result.entity}`, result.row));
+                }
+                return data;
+            })
+        }));
+    }
+
     protected async payloadHandler(payload: JsonObject,
                                    request: IncomingMessage,
                                    response: ServerResponse,
                                    uriElements: string[],
                                    resource?: string,
                                    id?: string): Promise<void> {
+        if (resource == EntityAdapter.BULK) {
+            await this.bulk(
+                await this.pullContext(request), response, payload);
+            return;
+        }
         const entity = this.entities.v.get(resource!);
         if (!entity) {
             throw new AdapterError(`Invalid entity: ${resource}`, 404);
         }
         const context = await this.pullContext(request);
+        if (uriElements.length == 4 &&
+            uriElements[3] == EntityAdapter.RESOLVE) {
+            await this.resolveConflict(
+                context, response, entity, uriElements[2], payload);
+            return;
+        }
         const policyTarget = `entity/${entity.name}`;
         const action = (id !== undefined) ? "put" : "post";
         this.policyConfig.v.guardResource(context, policyTarget, action);
-        const row = Row.dataToRow(payload, entity);
+        let row = Row.dataToRow(payload, entity);
         if (row && !row.empty) {
-            this.policyConfig.v.guardRow(context, policyTarget, action, row);
+            row = await this.prepareWrite(context, entity, action, row, id);
             let output: Row;
             if (id) {
                 output = await this.source.v.put(
@@ -487,7 +1171,8 @@ export class EntityAdapter extends SessionAwareAdapter {
                 output = await this.source.v.post(
                     this.logger, context, entity, row);
             }
-            response.end(JSON.stringify(Row.rowToData(output)));
+            response.end(JSON.stringify(Row.rowToData(
+                this.policyConfig.v.maskRow(context, policyTarget, output))));
         } else {
             throw new AdapterError("Cannot parse payload");
         }
@@ -516,6 +1201,14 @@ export class EntityAdapter extends SessionAwareAdapter {
                 throw new AdapterError("Missing entity in request", 400);
             }
             const entityName = uriElements[1];
+            if (entityName == EntityAdapter.BULK && uriElements.length == 2 &&
+                request.method == "POST") {
+                /*             0   1
+                 * POST        e _bulk                  Bulk post/put/delete
+                 */
+                this.handlePayload(request, response, uriElements, entityName);
+                return;
+            }
             const entity = this.entities.v.get(entityName);
             if (!entity) {
                 throw new AdapterError(`Invalid entity: ${entityName}`, 404);
@@ -529,6 +1222,9 @@ export class EntityAdapter extends SessionAwareAdapter {
                         entity, request, response, uriElements);
                     break;
                 case "POST":
+                    /*             0   1     2      3
+                     * POST        e entity uuid _resolve   Resolve conflicts
+                     */
                     this.handlePayload(
                         request, response, uriElements, entityName);
                     break;
@@ -577,18 +1273,25 @@ export class CollectionAdapter extends SessionAwareAdapter {
             const context = await this.pullContext(request);
             const resource = `entity/${collection.entity.v.name}`;
             this.policyConfig.v.guardResource(context, resource, "get");
-            let resultSet: IResultSet;
+            let query: Query | undefined;
             if (uriElements.length > 3) {
                 const queryStr = decodeURIComponent(uriElements[3]);
                 this.logger.info(
                     `Collection: ${collection.name}; query: ${queryStr}`);
-                const query = stringToQuery(queryStr);
-                resultSet = await collection.query(context, query);
-            } else {
-                resultSet = await collection.query(context);
+                query = stringToQuery(queryStr);
+            }
+            // A sealed Filter cannot be passed on to another server
+            if (collection.via != "collection") {
+                query = query || new Query();
+                query.filter = this.policyConfig.v.createFilter(
+                    context, collection.entity.v, query.filter);
             }
-            this.policyConfig.v.guardResultSet(context, resource, resultSet);
-            response.end(JSON.stringify(resultSet.getAll()));
+            const resultSet = await collection.query(context, query);
+            await streamResultSet(
+                this.logger, request, response, resultSet,
+                (page) => this.policyConfig.v.guardResultSet(
+                    context, resource, page),
+                (row) => this.policyConfig.v.maskRow(context, resource, row));
         } catch (error) {
             AdapterError.toResponse(this.logger, error, response);
         }
@@ -601,6 +1304,7 @@ export class CollectionAdapter extends SessionAwareAdapter {
          *             c collection
          *             c collection  ?     q=filter
          *             c collection  ?     f=fields&q=filter
+         *             c collection  ?     f=fields&l=limit&s=skip&q=filter
          */
         if (request.method != "GET") {
             throw new AdapterError(
@@ -673,7 +1377,8 @@ export class QueryOneAdapter extends SessionAwareAdapter {
                 this.logger, context, entity, filter);
             if (row && !row.empty) {
                 this.policyConfig.v.guardRow(context, resource, "get", row);
-                response.end(JSON.stringify(Row.rowToData(row)));
+                response.end(JSON.stringify(Row.rowToData(
+                    this.policyConfig.v.maskRow(context, resource, row))));
             } else {
                 respondWithRestError(
                     response, 404, "NotFound", `${entity.name}`);
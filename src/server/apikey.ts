@@ -0,0 +1,511 @@
+/*
+    RZO - A Business Application Framework
+
+    Copyright (C) 2024 Frank Vanderham
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU General Public License as published by
+    the Free Software Foundation, either version 3 of the License, or
+    (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU General Public License for more details.
+
+    You should have received a copy of the GNU General Public License
+    along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import { IncomingMessage, ServerResponse } from "http";
+
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+
+import {
+    ClassSpec, TypeCfg, IConfiguration, DaemonWorker, _IError, Cfg, Logger,
+    ServiceSource, Entity, Row, Filter, Query, IService, IContext, Persona,
+    SideEffects, JsonObject
+} from "../base/core.js";
+
+import { NOCONTEXT } from "../base/configuration.js";
+
+import { SessionContext } from "../base/session.js";
+
+import {
+    SessionAwareAdapter, SessionAwareAdapterSpec, AdapterError
+} from "./adapter.js";
+
+import { IInvalidationBus } from "./cache.js";
+
+class ApiKeyError extends _IError {
+    constructor(message: string, code?: number, options?: ErrorOptions) {
+        super(code || 500, message, options);
+    }
+}
+
+export type IssuedApiKey = {
+    keyid: string;
+    key: string;
+    expiry: Date;
+}
+
+export interface IApiKeyService {
+    get isApiKeyService(): boolean;
+    authenticate(logger: Logger, key: string): Promise<SessionContext>;
+    issue(logger: Logger, context: IContext, serviceAccount: string,
+          expiry?: Date): Promise<IssuedApiKey>;
+    rotate(logger: Logger, context: IContext, serviceAccount: string,
+           expiry?: Date): Promise<IssuedApiKey>;
+    revoke(logger: Logger, context: IContext, serviceAccount: string,
+           keyId: string): Promise<void>;
+}
+
+/* Key rotation shortens the expiry of the replaced keys in place, which
+ * only the server-side services support.
+ */
+interface IApiKeyStore extends IService {
+    updateImmutable(logger: Logger, context: IContext, entity: Entity,
+                    id: string, row: Row): Promise<void>;
+}
+
+type CachedApiKey = {
+    context: SessionContext;
+    checked: number;
+}
+
+/* All durations are in milliseconds. New keys expire after 'keyLifetime'
+ * unless the request asks for an earlier expiry. Rotating keys leaves the
+ * replaced keys valid for 'rotationGrace', so that clients can switch over.
+ * Authenticated keys are cached for 'cacheTtl'. With an 'invalidationBus'
+ * revocations and rotations evict the cached keys on all servers, without
+ * one a revoked key can remain usable on the other servers for 'cacheTtl'.
+ */
+type ApiKeyServiceSpec = ClassSpec & {
+    source: string;
+    accountEntity: string;
+    keyEntity: string;
+    keyLifetime: number;
+    rotationGrace: number;
+    cacheTtl: number;
+    invalidationBus?: string;
+}
+
+export class ApiKeyService extends DaemonWorker implements IApiKeyService {
+    readonly name: string;
+    readonly keyLifetime: number;
+    readonly rotationGrace: number;
+    readonly cacheTtl: number;
+    source: Cfg<ServiceSource>;
+    store: Cfg<IApiKeyStore>;
+    accountEntity: Cfg<Entity>;
+    keyEntity: Cfg<Entity>;
+    personas: Cfg<Map<string, Persona>>;
+    bus: Cfg<IInvalidationBus> | null;
+    private cache: Map<string, CachedApiKey>;
+    private _purgeId: NodeJS.Timeout | null;
+    logger: Logger;
+
+    static PREFIX = "rzo_";
+    static ACTIVE = "ACTIVE";
+
+    constructor(config: TypeCfg<ApiKeyServiceSpec>,
+                blueprints: Map<string, any>) {
+        super(config, blueprints);
+        this.name = config.metadata.name;
+        this.keyLifetime = config.spec.keyLifetime;
+        this.rotationGrace = config.spec.rotationGrace || 0;
+        this.cacheTtl = config.spec.cacheTtl || 0;
+        if (!this.keyLifetime || this.rotationGrace < 0 || this.cacheTtl < 0) {
+            throw new ApiKeyError(
+                `Invalid ApiKeyService configuration ${this.name}, ` +
+                `keyLifetime is required and rotationGrace and cacheTtl ` +
+                `cannot be negative`);
+        }
+        this.source = new Cfg(config.spec.source);
+        this.store = new Cfg(config.spec.source);
+        this.accountEntity = new Cfg(config.spec.accountEntity);
+        this.keyEntity = new Cfg(config.spec.keyEntity);
+        this.personas = new Cfg("personas");
+        this.bus = config.spec.invalidationBus ?
+            new Cfg(config.spec.invalidationBus) : null;
+        this.cache = new Map();
+        this._purgeId = null;
+        this.logger = new Logger(`apikey/${this.name}`);
+    }
+
+    configure(configuration: IConfiguration): void {
+        this.logger.configure(configuration);
+        this.source.v = configuration.getSource(
+            this.source.name).ensure(ServiceSource) as ServiceSource;
+        const service: unknown = this.source.v.service;
+        if (typeof (<any>service).updateImmutable != "function") {
+            throw new ApiKeyError(
+                `Invalid ApiKeyService: ${this.name}: source ` +
+                `${this.source.name} cannot update immutable entities`);
+        }
+        this.store.v = <IApiKeyStore>service;
+        this.accountEntity.v = configuration.getEntity(
+            this.accountEntity.name);
+        this.keyEntity.v = configuration.getEntity(this.keyEntity.name);
+        if (!this.keyEntity.v.immutable) {
+            throw new ApiKeyError(
+                `ApiKeyService ${this.name}: entity ${this.keyEntity.name} ` +
+                `must be immutable`);
+        }
+        this.personas.v = configuration.personas;
+        if (this.bus) {
+            const bus: unknown = configuration.workers.get(this.bus.name);
+            if (!bus || !((<any>bus).isInvalidationBus)) {
+                throw new ApiKeyError(
+                    `Invalid ApiKeyService: ${this.name}: worker ` +
+                    `${this.bus.name} does not exist or it is not an ` +
+                    `invalidation bus`);
+            }
+            this.bus.v = <IInvalidationBus>bus;
+        }
+        configuration.registerAsyncTask(this);
+    }
+
+    get isApiKeyService(): boolean {
+        return true;
+    }
+
+    static hashKey(key: string): string {
+        return createHash("sha256").update(key).digest("hex");
+    }
+
+    // Keys look like rzo_<keyid>_<secret>, the keyid locates the stored hash
+    static keyId(key: string): string {
+        if (!key.startsWith(ApiKeyService.PREFIX)) {
+            return "";
+        }
+        const separator = key.indexOf("_", ApiKeyService.PREFIX.length);
+        if (separator < 0) {
+            return "";
+        }
+        return key.substring(ApiKeyService.PREFIX.length, separator);
+    }
+
+    private async getAccount(serviceAccount: string): Promise<Row> {
+        const filter = new Filter().op("serviceaccount", "=", serviceAccount);
+        return this.store.v.getQueryOne(
+            this.logger, NOCONTEXT, this.accountEntity.v, filter);
+    }
+
+    private async verify(key: string, hash: string): Promise<SessionContext> {
+        const keyId = ApiKeyService.keyId(key);
+        if (!keyId) {
+            throw new ApiKeyError("Authentication error", 401);
+        }
+        const keyRow = await this.store.v.getQueryOne(
+            this.logger, NOCONTEXT, this.keyEntity.v,
+            new Filter().op("keyid", "=", keyId));
+        if (keyRow.empty || !timingSafeEqual(
+                Buffer.from(keyRow.getString("keyhash"), "hex"),
+                Buffer.from(hash, "hex"))) {
+            this.logger.error(`Invalid API key: ${keyId}`);
+            throw new ApiKeyError("Authentication error", 401);
+        }
+        const keyExpiry: Date = keyRow.get("expiry");
+        if (keyExpiry.getTime() <= Date.now()) {
+            this.logger.error(`API key expired: ${keyId}, ${keyExpiry}`);
+            throw new ApiKeyError("API key expired", 401);
+        }
+        const serviceAccount = keyRow.getString("serviceaccount");
+        const accountRow = await this.getAccount(serviceAccount);
+        if (accountRow.empty ||
+            accountRow.get("status") != ApiKeyService.ACTIVE) {
+            this.logger.error(
+                `API key ${keyId} used for unknown or inactive service ` +
+                `account: ${serviceAccount}`);
+            throw new ApiKeyError("Authentication error", 403);
+        }
+        let expiry = keyExpiry;
+        if (!accountRow.isNull("expiry")) {
+            const accountExpiry: Date = accountRow.get("expiry");
+            if (accountExpiry.getTime() <= Date.now()) {
+                this.logger.error(
+                    `Service account expired: ${serviceAccount}, ` +
+                    `${accountExpiry}`);
+                throw new ApiKeyError("Authentication error", 403);
+            }
+            if (accountExpiry < expiry) {
+                expiry = accountExpiry;
+            }
+        }
+        const personaName = accountRow.getString("persona");
+        const persona = this.personas.v.get(personaName);
+        if (!persona) {
+            throw new ApiKeyError(`Invalid persona: ${personaName}`, 403);
+        }
+        // Service accounts have no user account to resolve subjects from
+        const context = new SessionContext(new Row({
+            "_id": keyRow.getString("_id"),
+            "useraccountnum_id": accountRow.getString("_id"),
+            "useraccountnum": serviceAccount,
+            "persona": personaName,
+            "expiry": expiry,
+            "subjects": ""
+        }), persona);
+        context.scopes = accountRow.getString("scopes").split(",")
+            .map((scope) => scope.trim())
+            .filter((scope) => !!scope);
+        return context;
+    }
+
+    async authenticate(logger: Logger, key: string): Promise<SessionContext> {
+        const hash = ApiKeyService.hashKey(key);
+        const now = Date.now();
+        const cached = this.cache.get(hash);
+        if (cached && now - cached.checked < this.cacheTtl &&
+            cached.context.expiry.getTime() > now) {
+            return cached.context;
+        }
+        this.cache.delete(hash);
+        const context = await this.verify(key, hash);
+        if (this.cacheTtl) {
+            this.cache.set(hash, { context: context, checked: now });
+        }
+        logger.debug(
+            `API key authenticated for service account ` +
+            `${context.userAccount}`);
+        return context;
+    }
+
+    async issue(logger: Logger, context: IContext, serviceAccount: string,
+                expiry?: Date): Promise<IssuedApiKey> {
+        const accountRow = await this.getAccount(serviceAccount);
+        if (accountRow.empty) {
+            throw new ApiKeyError(
+                `Unknown service account: ${serviceAccount}`, 404);
+        }
+        const maxExpiry = new Date(Date.now() + this.keyLifetime);
+        const keyExpiry = expiry && expiry < maxExpiry ? expiry : maxExpiry;
+        const keyId = randomBytes(8).toString("hex");
+        const key = `${ApiKeyService.PREFIX}${keyId}_` +
+            randomBytes(32).toString("base64url");
+        const state = await this.keyEntity.v.create(context, this.store.v);
+        const validations: Promise<SideEffects>[] = [];
+        validations.push(this.keyEntity.v.setValue(
+            state, "serviceaccount", serviceAccount, context));
+        validations.push(this.keyEntity.v.setValue(
+            state, "keyid", keyId, context));
+        validations.push(this.keyEntity.v.setValue(
+            state, "keyhash", ApiKeyService.hashKey(key), context));
+        validations.push(this.keyEntity.v.setValue(
+            state, "expiry", keyExpiry, context));
+        await Promise.all(validations);
+        await this.keyEntity.v.post(this.store.v, state, context);
+        logger.log(
+            `Issued API key ${keyId} for service account ${serviceAccount}, ` +
+            `Expiry: ${keyExpiry}`);
+        return { keyid: keyId, key: key, expiry: keyExpiry };
+    }
+
+    /* Issues a new key and lets every other key of the service account
+     * expire after the rotation grace period.
+     */
+    async rotate(logger: Logger, context: IContext, serviceAccount: string,
+                 expiry?: Date): Promise<IssuedApiKey> {
+        const issued = await this.issue(
+            logger, context, serviceAccount, expiry);
+        const graceEnd = new Date(Date.now() + this.rotationGrace);
+        const filter = new Filter()
+            .op("serviceaccount", "=", serviceAccount)
+            .op("keyid", "!=", issued.keyid)
+            .op("expiry", ">", graceEnd.toISOString());
+        const existing = await this.store.v.getQuery(
+            this.logger, NOCONTEXT, this.keyEntity.v,
+            new Query(["_id", "keyid"], filter));
+        const replaced: Row[] = [];
+        while (await existing.nextRow()) {
+            replaced.push(existing.getRow());
+        }
+        for (const row of replaced) {
+            await this.store.v.updateImmutable(
+                this.logger, context, this.keyEntity.v, row.getString("_id"),
+                new Row({ "expiry": graceEnd }));
+            logger.log(
+                `API key ${row.getString("keyid")} of service account ` +
+                `${serviceAccount} replaced, Expiry: ${graceEnd}`);
+        }
+        // Cached contexts would still carry the old expiry
+        this.invalidate(serviceAccount);
+        return issued;
+    }
+
+    async revoke(logger: Logger, context: IContext, serviceAccount: string,
+                 keyId: string): Promise<void> {
+        const filter = new Filter()
+            .op("serviceaccount", "=", serviceAccount)
+            .op("keyid", "=", keyId);
+        const keyRow = await this.store.v.getQueryOne(
+            this.logger, NOCONTEXT, this.keyEntity.v, filter);
+        if (keyRow.empty) {
+            throw new ApiKeyError(
+                `Unknown API key ${keyId} for service account ` +
+                `${serviceAccount}`, 404);
+        }
+        await this.store.v.deleteImmutable(
+            this.logger, context, this.keyEntity.v, keyRow.getString("_id"));
+        this.invalidate(serviceAccount);
+        logger.log(
+            `Revoked API key ${keyId} of service account ${serviceAccount}`);
+    }
+
+    // Drops the cached keys of 'serviceAccount' on this server only
+    private evict(serviceAccount: string): void {
+        for (const [hash, cached] of this.cache) {
+            if (cached.context.userAccount == serviceAccount) {
+                this.cache.delete(hash);
+            }
+        }
+    }
+
+    private invalidate(serviceAccount: string): void {
+        this.evict(serviceAccount);
+        if (this.bus) {
+            this.bus.v.publish(this.name, serviceAccount).catch((error) => {
+                this.logger.error(
+                    `ApiKeyService ${this.name} cannot publish invalidation ` +
+                    `of service account ${serviceAccount}`);
+                this.logger.exc(error);
+            });
+        }
+    }
+
+    private purge(): void {
+        const now = Date.now();
+        for (const [hash, cached] of this.cache) {
+            if (now - cached.checked >= this.cacheTtl) {
+                this.cache.delete(hash);
+            }
+        }
+    }
+
+    async start(): Promise<any> {
+        if (this.cacheTtl) {
+            this._purgeId = setInterval(() => {
+                this.purge();
+            }, this.cacheTtl);
+        }
+        if (this.bus) {
+            await this.bus.v.subscribe(this.name, (serviceAccount) => {
+                this.evict(serviceAccount);
+            }, () => {
+                this.cache.clear();
+            });
+        }
+        this.logger.log(
+            `ApiKeyService ${this.name} started with keyLifetime: ` +
+            `${this.keyLifetime}; rotationGrace = ${this.rotationGrace}; ` +
+            `cacheTtl = ${this.cacheTtl}`);
+    }
+
+    async stop(): Promise<any> {
+        if (this._purgeId) {
+            clearInterval(this._purgeId);
+        }
+        this.cache.clear();
+        this.logger.log(`ApiKeyService ${this.name} stopped`);
+    }
+}
+
+type ApiKeyAdapterSpec = SessionAwareAdapterSpec & {
+    apiKeys: string;
+}
+
+/* https:/host/
+ *             0     1           2
+ * POST        k  account               Issue a new key
+ * PUT         k  account               Rotate the keys of the account
+ * DELETE      k  account      keyid    Revoke a key
+ *
+ * POST and PUT take an optional {"expiry"}, the issued key is only ever
+ * returned in that response.
+ */
+export class ApiKeyAdapter extends SessionAwareAdapter {
+    constructor(config: TypeCfg<ApiKeyAdapterSpec>,
+                blueprints: Map<string, any>) {
+        super(config, blueprints);
+        if (!this.apiKeys) {
+            throw new AdapterError(
+                `Invalid ApiKeyAdapter configuration ${this.name}, apiKeys ` +
+                `is required`);
+        }
+    }
+
+    private get service(): IApiKeyService {
+        return this.apiKeys!.v;
+    }
+
+    protected async payloadHandler(payload: JsonObject,
+                                   request: IncomingMessage,
+                                   response: ServerResponse,
+                                   uriElements: string[],
+                                   resource?: string,
+                                   id?: string): Promise<void> {
+        const context = await this.pullContext(request);
+        const action = request.method == "POST" ? "post" : "put";
+        this.policyConfig.v.guardResource(context, "entity/apikey", action);
+        const row = Row.dataToRow(payload);
+        let expiry: Date | undefined;
+        if (row.has("expiry") && row.getString("expiry")) {
+            expiry = new Date(row.getString("expiry"));
+            if (isNaN(expiry.getTime())) {
+                throw new AdapterError("Invalid expiry", 400);
+            }
+        }
+        const serviceAccount = uriElements[1];
+        const issued = request.method == "POST" ?
+            await this.service.issue(
+                this.logger, context, serviceAccount, expiry) :
+            await this.service.rotate(
+                this.logger, context, serviceAccount, expiry);
+        response.end(JSON.stringify(issued));
+    }
+
+    private async revoke(request: IncomingMessage, response: ServerResponse,
+                         uriElements: string[]): Promise<void> {
+        const context = await this.pullContext(request);
+        this.policyConfig.v.guardResource(context, "entity/apikey", "delete");
+        await this.service.revoke(
+            this.logger, context, uriElements[1], uriElements[2]);
+        response.end();
+    }
+
+    handle(request: IncomingMessage, response: ServerResponse,
+           uriElements: string[]): void {
+        try {
+            const elements = uriElements.map(
+                (element) => decodeURIComponent(element));
+            switch (request.method) {
+                case "POST":
+                case "PUT":
+                    if (elements.length != 2) {
+                        throw new AdapterError(
+                            `Invalid API key request: invalid URI ` +
+                            `components for ${request.method}`, 400);
+                    }
+                    this.handlePayload(request, response, elements);
+                    break;
+                case "DELETE":
+                    if (elements.length != 3) {
+                        throw new AdapterError(
+                            `Invalid API key request: invalid URI ` +
+                            `components for DELETE`, 400);
+                    }
+                    this.revoke(request, response, elements)
+                    .catch((error) => {
+                        AdapterError.toResponse(this.logger, error, response);
+                    });
+                    break;
+                default:
+                    throw new AdapterError(
+                        `Invalid API key request: ${request.method}`, 400);
+            }
+        } catch (error) {
+            AdapterError.toResponse(this.logger, error, response);
+        }
+    }
+}
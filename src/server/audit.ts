@@ -0,0 +1,208 @@
+/*
+    RZO - A Business Application Framework
+
+    Copyright (C) 2024 Frank Vanderham
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU General Public License as published by
+    the Free Software Foundation, either version 3 of the License, or
+    (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU General Public License for more details.
+
+    You should have received a copy of the GNU General Public License
+    along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import {
+    ClassSpec, TypeCfg, IConfiguration, DaemonWorker, _IError, Cfg, Logger,
+    ServiceSource, Entity, Row, IPolicyAuditor, PolicyDecision, BulkOperation
+} from "../base/core.js";
+
+import { NOCONTEXT } from "../base/configuration.js";
+
+class AuditError extends _IError {
+    constructor(message: string, code?: number, options?: ErrorOptions) {
+        super(code || 500, message, options);
+    }
+}
+
+/* allowSampleRate is the fraction (0 - 1) of 'allow' decisions that is
+ * recorded, 'deny' decisions are always recorded.
+ */
+type PolicyAuditWorkerSpec = ClassSpec & {
+    source: string;
+    entity: string;
+    allowSampleRate?: number;
+    flushFrequency: number;
+}
+
+/* Collects policy decisions in memory and writes them to the (immutable)
+ * audit entity every 'flushFrequency' milliseconds, so guarding a request
+ * never waits for the audit trail.
+ */
+export class PolicyAuditWorker extends DaemonWorker implements IPolicyAuditor {
+    readonly name: string;
+    readonly allowSampleRate: number;
+    readonly flushFrequency: number;
+    source: Cfg<ServiceSource>;
+    entity: Cfg<Entity>;
+    private _pending: PolicyDecision[];
+    private _flushId: NodeJS.Timeout | null;
+    private _flushing: Promise<void> | null;
+    logger: Logger;
+
+    static MAX_PENDING = 10000;
+
+    constructor(config: TypeCfg<PolicyAuditWorkerSpec>,
+                blueprints: Map<string, any>) {
+        super(config, blueprints);
+        this.name = config.metadata.name;
+        this.allowSampleRate = config.spec.allowSampleRate ?? 0;
+        this.flushFrequency = config.spec.flushFrequency;
+        if (this.allowSampleRate < 0 || this.allowSampleRate > 1) {
+            throw new AuditError(
+                `Invalid PolicyAuditWorker configuration ${this.name}, ` +
+                `allowSampleRate must be between 0 and 1`);
+        }
+        if (this.flushFrequency < 1000) {
+            throw new AuditError(
+                `Invalid PolicyAuditWorker configuration ${this.name}, ` +
+                `flushFrequency is below 1000`);
+        }
+        this.source = new Cfg(config.spec.source);
+        this.entity = new Cfg(config.spec.entity);
+        this._pending = [];
+        this._flushId = null;
+        this._flushing = null;
+        this.logger = new Logger(`audit/${this.name}`);
+    }
+
+    configure(configuration: IConfiguration): void {
+        this.logger.configure(configuration);
+        this.source.v = configuration.getSource(
+            this.source.name).ensure(ServiceSource) as ServiceSource;
+        this.entity.v = configuration.getEntity(this.entity.name);
+        if (!this.entity.v.immutable) {
+            throw new AuditError(
+                `PolicyAuditWorker ${this.name}: entity ` +
+                `${this.entity.name} must be immutable`);
+        }
+        if (!configuration.policyConfig) {
+            throw new AuditError(
+                `Cannot start PolicyAuditWorker '${this.name}' because no ` +
+                `policy configuration was defined`);
+        }
+        configuration.policyConfig.setAuditor(this);
+        configuration.registerAsyncTask(this);
+    }
+
+    record(decision: PolicyDecision): void {
+        if (decision.effect == "allow" &&
+            Math.random() >= this.allowSampleRate) {
+            return;
+        }
+        if (this._pending.length >= PolicyAuditWorker.MAX_PENDING) {
+            this.logger.error(
+                `Audit queue is full, dropping decision for ` +
+                `${decision.resource} by ${decision.userAccountId}`);
+            return;
+        }
+        this._pending.push(decision);
+    }
+
+    private toRow(decision: PolicyDecision): Row {
+        return new Row({
+            "decided": decision.decided,
+            "useraccountid": decision.userAccountId,
+            "persona": decision.persona,
+            "resource": decision.resource,
+            "action": decision.action,
+            "effect": decision.effect,
+            "rule": decision.rule,
+            "reason": decision.reason,
+            "rowid": decision.rowId || null
+        });
+    }
+
+    /* Writes the batch in a single transaction, so either all decisions
+     * are recorded or all are queued again.
+     */
+    private async writePending(): Promise<void> {
+        const decisions = this._pending;
+        this._pending = [];
+        const operations: BulkOperation[] = decisions.map((decision) => {
+            return {
+                action: "post",
+                entity: this.entity.v,
+                row: this.toRow(decision)
+            };
+        });
+        try {
+            await this.source.v.service.bulk(
+                this.logger, NOCONTEXT, operations);
+        } catch (error) {
+            this.requeue(decisions);
+            throw error;
+        }
+    }
+
+    /* Puts unwritten decisions back in front of the queue. If that overflows
+     * the queue, sampled 'allow' decisions are dropped before any 'deny'.
+     */
+    private requeue(decisions: PolicyDecision[]): void {
+        let pending = decisions.concat(this._pending);
+        const total = pending.length;
+        let excess = total - PolicyAuditWorker.MAX_PENDING;
+        if (excess > 0) {
+            pending = pending.filter(
+                (decision) => decision.effect != "allow" || excess-- <= 0);
+            pending = pending.slice(0, PolicyAuditWorker.MAX_PENDING);
+            this.logger.error(
+                `Audit queue is full, dropped ${total - pending.length} ` +
+                `decisions`);
+        }
+        this._pending = pending;
+    }
+
+    private async flush(): Promise<void> {
+        if (this._flushing || this._pending.length == 0) {
+            return;
+        }
+        this._flushing = this.writePending();
+        try {
+            await this._flushing;
+        } catch (error) {
+            this.logger.error("Failed to write policy audit records");
+            if (error instanceof Error) {
+                this.logger.exc(error);
+            }
+        } finally {
+            this._flushing = null;
+        }
+    }
+
+    async start(): Promise<any> {
+        this._flushId = setInterval(() => {
+            this.flush();
+        }, this.flushFrequency);
+        this.logger.log(
+            `PolicyAuditWorker ${this.name} started with flushFrequency: ` +
+            `${this.flushFrequency}; allowSampleRate = ` +
+            `${this.allowSampleRate}`);
+    }
+
+    async stop(): Promise<any> {
+        if (this._flushId) {
+            clearInterval(this._flushId);
+        }
+        if (this._flushing) {
+            await this._flushing.catch(() => undefined);
+        }
+        await this.flush();
+        this.logger.log(`PolicyAuditWorker ${this.name} stopped`);
+    }
+}
@@ -19,11 +19,16 @@
 
 import { IncomingMessage, ServerResponse } from "http";
 
-import { randomInt } from "node:crypto";
+import {
+    randomInt, randomBytes, createHash, verify, KeyObject
+} from "node:crypto";
+
+import { readFile } from "node:fs/promises";
 
 import {
-    _IError, Row, Filter, Cfg, Entity, TypeCfg, IConfiguration, Nobody,
-    JsonObject, Persona, SideEffects, Logger, IContext
+    _IError, Row, Filter, Query, Cfg, Entity, TypeCfg, IConfiguration, Nobody,
+    JsonObject, Persona, SideEffects, Logger, IContext, PolicyAction,
+    BulkOperation
 } from "../base/core.js";
 
 import { NOCONTEXT } from "../base/configuration.js";
@@ -34,7 +39,9 @@ import {
     SessionAwareAdapter, SessionAwareAdapterSpec, AdapterError, getHeader
 } from "./adapter.js";
 
-import { PasswordField } from "./crypto.js";
+import { PasswordField, Jwk, JwkType } from "./crypto.js";
+
+import { INotificationService, NotificationSource } from "./notification.js";
 
 class AuthenticationError extends _IError {
 
@@ -43,13 +50,85 @@ class AuthenticationError extends _IError {
     }
 }
 
+/* Without a 'notificationSource' the one-time login code is only logged,
+ * which is meant for local development. The notification is written in the
+ * same transaction as the code, so its outbox must be in the same database
+ * as the adapter's source.
+ */
 type OneTimeAdapterSpec = SessionAwareAdapterSpec & {
     persona: string;
+    notificationSource?: string;
+}
+
+/* 'tokenLifetime' is in milliseconds. Without a 'notificationSource' the
+ * reset token is only logged, which is meant for local development. As for
+ * the one-time login, the outbox must share the adapter's database.
+ */
+type PasswordResetAdapterSpec = SessionAwareAdapterSpec & {
+    tokenLifetime?: number;
+    notificationSource?: string;
+}
+
+/* 'jwks' is a URL to the provider's key set, a file: URL can stand in for
+ * a provider. 'claim' names the ID token claim that holds the
+ * useraccountnum, 'clockTolerance' is in seconds.
+ */
+type OIDCAdapterSpec = SessionAwareAdapterSpec & {
+    issuer: string;
+    audience: string;
+    jwks: string;
+    claim: string;
+    clockTolerance?: number;
+}
+
+type JwtHeader = {
+    alg: string;
+    kid?: string;
+    typ?: string;
+}
+
+type JwtClaims = JsonObject & {
+    iss?: string;
+    aud?: string | string[];
+    exp?: number;
+    nbf?: number;
 }
 
 interface IRZOAuthService {
     getQueryOne(logger: Logger, context: IContext, entity: Entity,
                 filter: Filter): Promise<Row>;
+    updateImmutable?(logger: Logger, context: IContext, entity: Entity,
+                     id: string, row: Row): Promise<void>;
+}
+
+/* Replaces an outdated password hash after a successful login, a failure
+ * is logged but does not fail the login.
+ */
+async function rehashPassword(logger: Logger, service: IRZOAuthService,
+                              loginEntity: Entity, authRow: Row,
+                              passwd: string): Promise<void> {
+    const field = loginEntity.getField("password");
+    if (!(field instanceof PasswordField) || !service.updateImmutable ||
+        !field.needsRehash(authRow.getString("password"))) {
+        return;
+    }
+    try {
+        const hash = await PasswordField.hash(
+            field.algorithm, passwd, field.cost);
+        await service.updateImmutable(
+            logger, NOCONTEXT, loginEntity, authRow.getString("_id"),
+            new Row({ "password": hash }));
+        logger.info(
+            `Upgraded the password hash for username: ` +
+            `${authRow.getString("useraccountnum")}`);
+    } catch (error) {
+        logger.error(
+            `Cannot upgrade the password hash for username: ` +
+            `${authRow.getString("useraccountnum")}`);
+        if (error instanceof Error) {
+            logger.exc(error);
+        }
+    }
 }
 
 export async function rzoAuthenticate(logger: Logger,
@@ -64,25 +143,14 @@ export async function rzoAuthenticate(logger: Logger,
                 .op("useraccountnum", "=", useraccountnum);
             const authRow = await service.getQueryOne(
                 logger, NOCONTEXT, loginEntity, filter);
-            if (row.empty) {
+            if (authRow.empty) {
                 console.log(
                     `Login attempt blocked due no login found for ` +
                     `username: ${useraccountnum}`);
                 throw new AuthenticationError("Authentication error", 403);
             }
-            const passwordHash = authRow.get("password");
-            const components = passwordHash.split("/");
-            if (components.length != 3) {
-                console.log(
-                    `Login attempt blocked due to hashed value found ` +
-                    `stored for username: ${useraccountnum} does not ` +
-                    `have three components, separated by /`);
-                throw new AuthenticationError("Authentication error", 403);
-            }
-            // [0:algorithm]/[1:salt]/[2:digest]
-            const digest = await PasswordField.digest(
-                components[0], passwd, components[1]);
-            if (components[2] != digest) {
+            const passwordHash = authRow.getString("password");
+            if (!await PasswordField.verify(passwd, passwordHash)) {
                 console.log(
                     `Login attempt blocked due to password mismatch for ` +
                     `username: ${useraccountnum}`);
@@ -91,6 +159,8 @@ export async function rzoAuthenticate(logger: Logger,
             console.log(
                 `Authentication successful for username: ` +
                 `${useraccountnum}`);
+            await rehashPassword(
+                logger, service, loginEntity, authRow, passwd);
             return authRow.getString("useraccountnum_id");
         } else {
             throw new AuthenticationError("Cannot parse authentication");
@@ -105,6 +175,7 @@ export class RZOOneTimeAdapter extends SessionAwareAdapter {
     loginEntity: Cfg<Entity>;
     userAccountEntity: Cfg<Entity>;
     persona: Cfg<Persona>;
+    notifications: Cfg<INotificationService> | null;
 
     static FIVEMINUTES = 1000*5*60;
 
@@ -115,6 +186,8 @@ export class RZOOneTimeAdapter extends SessionAwareAdapter {
         this.loginEntity = new Cfg("loginentity");
         this.userAccountEntity = new Cfg("useraccount");
         this.persona = new Cfg(config.spec.persona);
+        this.notifications = config.spec.notificationSource ?
+            new Cfg(config.spec.notificationSource) : null;
     }
 
     configure(configuration: IConfiguration): void {
@@ -123,6 +196,10 @@ export class RZOOneTimeAdapter extends SessionAwareAdapter {
         this.loginEntity.v = configuration.getEntity("login");
         this.userAccountEntity.v = configuration.getEntity("useraccount");
         this.persona.v = configuration.getPersona(this.persona.name);
+        if (this.notifications) {
+            this.notifications.v = (<NotificationSource>configuration.getSource(
+                this.notifications.name).ensure(NotificationSource)).service;
+        }
     }
 
     private async createOneTimeLogin(userNum: string,
@@ -138,12 +215,15 @@ export class RZOOneTimeAdapter extends SessionAwareAdapter {
             throw new AuthenticationError("Authentication error", 403);
         }
         // Delete any existing onetimelogin, if present
+        const operations: BulkOperation[] = [];
         const existingRow = await this.source.v.getQueryOne(
             this.logger, NOCONTEXT, this.oneTimeEntity.v, filter);
         if (!existingRow.empty) {
-            await this.source.v.deleteImmutable(
-                this.logger, NOCONTEXT, this.oneTimeEntity.v,
-                existingRow.get("_id"));
+            operations.push({
+                action: "delete",
+                entity: this.oneTimeEntity.v,
+                id: existingRow.getString("_id")
+            });
         }
 
         // Create a random number between 111000 and 999900 (as a string)
@@ -167,10 +247,33 @@ export class RZOOneTimeAdapter extends SessionAwareAdapter {
         validations.push(
             this.oneTimeEntity.v.setValue(state, "expiry", expiry, NOCONTEXT));
         await Promise.all(validations);
-        await this.oneTimeEntity.v.post(this.source.v, state, NOCONTEXT);
-        this.logger.log(
-            `One Time Login created for User: ${userNum}, Email: ${email}, ` +
-            `Code: ${code}, Expiry: ${expiry}`);
+        await this.oneTimeEntity.v.validate("create", state, NOCONTEXT);
+        await this.oneTimeEntity.v.activate("create", state, NOCONTEXT);
+        operations.push({
+            action: "post",
+            entity: this.oneTimeEntity.v,
+            row: this.oneTimeEntity.v.stateToRow(state)
+        });
+        // The code is only stored if its notification is stored with it
+        if (this.notifications) {
+            operations.push(this.notifications.v.outboxOperation({
+                channel: "email",
+                recipient: userRow.getString("email"),
+                subject: "Your one-time login code",
+                body: `Your one-time login code is ${code}, it expires at ` +
+                    `${expiry.toISOString()}.`
+            }));
+        }
+        await this.source.v.bulk(this.logger, NOCONTEXT, operations);
+        if (this.notifications) {
+            this.logger.log(
+                `One Time Login created for User: ${userNum}, ` +
+                `Email: ${email}, Expiry: ${expiry}`);
+        } else {
+            this.logger.log(
+                `One Time Login created for User: ${userNum}, ` +
+                `Email: ${email}, Code: ${code}, Expiry: ${expiry}`);
+        }
         response.end(JSON.stringify(
             { "user": userNum, "email": email, "expiry": expiry }));
     }
@@ -286,7 +389,10 @@ export class RZOOneTimeAdapter extends SessionAwareAdapter {
         const row = Row.dataToRow(payload);
         if (request.method == "POST") {
             // Create One Time Login session, await it to handle errors upstream
-            await this.authenticate(row, response);
+            const username =
+                row.has("username") ? row.getString("username") : "";
+            await this.guardLogin(
+                request, username, () => this.authenticate(row, response));
         } else if (request.method == "PUT") {
             // Validate One Time Login session and create a Login record
             await this.createLogin(row, request, response);
@@ -330,61 +436,28 @@ export class RZOOneTimeAdapter extends SessionAwareAdapter {
 
 export class RZOAuthAdapter extends SessionAwareAdapter {
     loginEntity: Cfg<Entity>;
+    userAccountEntity: Cfg<Entity>;
+
+    static ALL = "_all";
+    static USER = "_user";
+    static REFRESH = "_refresh";
 
     constructor(config: TypeCfg<SessionAwareAdapterSpec>,
                 blueprints: Map<string, any>) {
         super(config, blueprints);
         this.loginEntity = new Cfg("loginentity");
+        this.userAccountEntity = new Cfg("useraccount");
     }
 
     configure(configuration: IConfiguration): void {
         super.configure(configuration);
         this.loginEntity.v = configuration.getEntity("login");
+        this.userAccountEntity.v = configuration.getEntity("useraccount");
     }
 
     protected async authenticate(row: Row): Promise<string> {
-        if (row.has("username") && row.has("password")) {
-            const useraccountnum = row.getString("username");
-            const passwd = row.getString("password");
-            if (useraccountnum && passwd) {
-                const filter = new Filter()
-                    .op("useraccountnum", "=", useraccountnum);
-                const authRow = await this.source.v.getQueryOne(
-                    this.logger, NOCONTEXT, this.loginEntity.v, filter);
-                if (row.empty) {
-                    console.log(
-                        `Login attempt blocked due no login found for ` +
-                        `username: ${useraccountnum}`);
-                    throw new AuthenticationError("Authentication error", 403);
-                }
-                const passwordHash = authRow.get("password");
-                const components = passwordHash.split("/");
-                if (components.length != 3) {
-                    console.log(
-                        `Login attempt blocked due to hashed value found ` +
-                        `stored for username: ${useraccountnum} does not ` +
-                        `have three components, separated by /`);
-                    throw new AuthenticationError("Authentication error", 403);
-                }
-                // [0:algorithm]/[1:salt]/[2:digest]
-                const digest = await PasswordField.digest(
-                    components[0], passwd, components[1]);
-                if (components[2] != digest) {
-                    console.log(
-                        `Login attempt blocked due to password mismatch for ` +
-                        `username: ${useraccountnum}`);
-                    throw new AuthenticationError("Authentication error", 403);
-                }
-                console.log(
-                    `Authentication successful for username: ` +
-                    `${useraccountnum}`);
-                return authRow.getString("useraccountnum_id");
-            } else {
-                throw new AuthenticationError("Cannot parse authentication");
-            }
-        } else {
-            throw new AuthenticationError("Cannot parse payload");
-        }
+        return rzoAuthenticate(
+            this.logger, this.source.v, this.loginEntity.v, row);
     }
 
     protected async payloadHandler(payload: JsonObject,
@@ -393,9 +466,16 @@ export class RZOAuthAdapter extends SessionAwareAdapter {
                                    uriElements: string[],
                                    resource?: string,
                                    id?: string): Promise<void> {
+        if (request.method == "PUT") {
+            return this.switchPersona(payload, request, response);
+        }
+        if (uriElements[1] == RZOAuthAdapter.REFRESH) {
+            return this.refresh(request, response);
+        }
         const row = Row.dataToRow(payload);
-        const userId = await rzoAuthenticate(
-            this.logger, this.source.v, this.loginEntity.v, row);
+        const username = row.has("username") ? row.getString("username") : "";
+        const userId = await this.guardLogin(
+            request, username, () => this.authenticate(row));
         const sessionRow = await this.sessionBackend.v.createSession(
             this.logger, userId);
 
@@ -411,6 +491,45 @@ export class RZOAuthAdapter extends SessionAwareAdapter {
         response.end(JSON.stringify(Row.rowToData(sessionRow)));
     }
 
+    /* Changes the persona of the current session to the one named in the
+     * payload, which needs to be one of the user's 'otherpersonas'.
+     */
+    private async switchPersona(payload: JsonObject,
+                                request: IncomingMessage,
+                                response: ServerResponse): Promise<void> {
+        const sessionContext = await this.pullContext(request);
+        const personaName = payload["persona"];
+        if (typeof personaName != "string" || !personaName) {
+            throw new AuthenticationError("Cannot parse payload");
+        }
+        const persona = this.personas.v.get(personaName);
+        if (!persona) {
+            throw new AuthenticationError(
+                `Invalid persona: ${personaName}`, 403);
+        }
+        const sessionRow = await this.sessionBackend.v.switchPersona(
+            this.logger, sessionContext.sessionId, persona);
+        this.sessionCache.v.delete(sessionContext.sessionId);
+        const switched = new SessionContext(sessionRow, persona);
+        this.sessionCache.v.set(switched.sessionId, switched);
+        this.logger.info(
+            `User ${switched.userAccount} switched persona from ` +
+            `${sessionContext.persona.name} to ${persona.name}`);
+        response.end(JSON.stringify(Row.rowToData(sessionRow)));
+    }
+
+    /* Extends the current session right away, regardless of how recently
+     * activity extended it.
+     */
+    private async refresh(request: IncomingMessage,
+                          response: ServerResponse): Promise<void> {
+        const sessionContext = await this.pullContext(request);
+        const sessionRow = await this.sessionBackend.v.extendSession(
+            this.logger, sessionContext.sessionId);
+        sessionContext.expiry = new Date(sessionRow.get("expiry"));
+        response.end(JSON.stringify(Row.rowToData(sessionRow)));
+    }
+
     async handleDelete(request: IncomingMessage,
                        response: ServerResponse): Promise<void> {
         const sessionId = getHeader(request.headers, "rzo-sessionid");
@@ -439,15 +558,107 @@ export class RZOAuthAdapter extends SessionAwareAdapter {
         response.end();
     }
 
+    /* Resolves the user the session request is about: the current user,
+     * or for /s/_user/<useraccountnum>, a user managed through the
+     * 'entity/session' policy.
+     */
+    private async sessionOwner(context: IContext, uriElements: string[],
+                               action: PolicyAction): Promise<string> {
+        if (uriElements[1] != RZOAuthAdapter.USER) {
+            return context.userAccountId;
+        }
+        if (uriElements.length < 3) {
+            throw new AdapterError(
+                "Invalid session request: missing useraccountnum", 400);
+        }
+        this.policyConfig.v.guardResource(context, "entity/session", action);
+        const username = decodeURIComponent(uriElements[2]);
+        const filter = new Filter().op("useraccountnum", "=", username);
+        const userRow = await this.source.v.getQueryOne(
+            this.logger, NOCONTEXT, this.userAccountEntity.v, filter);
+        if (userRow.empty) {
+            throw new AdapterError(`Unknown useraccount: ${username}`, 404);
+        }
+        return userRow.getString("_id");
+    }
+
+    /* https:/host/
+     *             0    1        2            3
+     * GET         s                                  List own sessions
+     * GET         s  _user  useraccount              List user's sessions
+     */
+    async handleGet(request: IncomingMessage, response: ServerResponse,
+                    uriElements: string[]): Promise<void> {
+        const context = await this.pullContext(request);
+        if (uriElements.length > 1 && uriElements[1] != RZOAuthAdapter.USER) {
+            throw new AdapterError(
+                "Invalid session request: invalid URI components for GET",
+                400);
+        }
+        const userId = await this.sessionOwner(context, uriElements, "get");
+        response.end(JSON.stringify(
+            await this.listSessions(context, userId)));
+    }
+
+    /* https:/host/
+     *             0    1        2            3
+     * DELETE      s                                  Log out
+     * DELETE      s  _all                            Revoke own sessions
+     * DELETE      s  handle                          Revoke own session
+     * DELETE      s  _user  useraccount              Revoke user's sessions
+     * DELETE      s  _user  useraccount   handle     Revoke user's session
+     */
+    async handleRevoke(request: IncomingMessage, response: ServerResponse,
+                       uriElements: string[]): Promise<void> {
+        const context = await this.pullContext(request);
+        const userId = await this.sessionOwner(
+            context, uriElements, "delete");
+        const offset = uriElements[1] == RZOAuthAdapter.USER ? 2 : 0;
+        const username = offset ?
+            decodeURIComponent(uriElements[2]) : context.userAccount;
+        const handle = uriElements[1 + offset];
+        let revoked: number;
+        if (uriElements.length == 2 + offset &&
+            handle != RZOAuthAdapter.ALL) {
+            await this.revokeSession(userId, handle);
+            revoked = 1;
+        } else if (uriElements.length == 2 + offset ||
+                   (offset && uriElements.length == 3)) {
+            revoked = await this.revokeUserSessions(userId, username);
+        } else {
+            throw new AdapterError(
+                "Invalid session request: invalid URI components for DELETE",
+                400);
+        }
+        console.log(
+            `User ${context.userAccount} revoked ${revoked} session(s)`);
+        response.end(JSON.stringify({ "revoked": revoked }));
+    }
+
     handle(request: IncomingMessage, response: ServerResponse,
            uriElements: string[]): void {
         try {
             switch (request.method) {
                 case "POST":
+                case "PUT":
                     this.handlePayload(request, response, uriElements);
                     break;
+                case "GET":
+                    this.handleGet(request, response, uriElements)
+                    .catch((error) => {
+                        AdapterError.toResponse(this.logger, error, response);
+                    });
+                    break;
                 case "DELETE":
-                    this.handleDelete(request, response);
+                    if (uriElements.length == 1) {
+                        this.handleDelete(request, response);
+                    } else {
+                        this.handleRevoke(request, response, uriElements)
+                        .catch((error) => {
+                            AdapterError.toResponse(
+                                this.logger, error, response);
+                        });
+                    }
                     break;
                 default:
                     throw new AdapterError(
@@ -501,3 +712,463 @@ export class BootstrapSessionAdapter extends RZOAuthAdapter {
     }
 }
 
+/* Creates a session from an OpenID Connect ID token:
+ *
+ *     POST oidc { "id_token": "<jwt>" }
+ *
+ * The token must be signed with RS256 by one of the keys in the configured
+ * JWKS, and its issuer, audience and expiry must match. The useraccount
+ * must be ACTIVE, and the login goes through the 'loginGuard' like a
+ * password login.
+ *
+ * The issuer, audience and JWKS are specific to each identity provider, so
+ * the server configuration does not ship with this adapter. To enable it,
+ * add a Worker with, for example:
+ *
+ *     "type": "server.authentication.OIDCAuthAdapter",
+ *     "source": "db", "cache": "sessioncache",
+ *     "sessionBackendSource": "db", "loginGuard": "loginguard",
+ *     "issuer": "https://login.example.com",
+ *     "audience": "rzo", "claim": "preferred_username",
+ *     "jwks": "https://login.example.com/.well-known/jwks.json"
+ *
+ * and map a context to it in the RestServerWorker, like "oidc".
+ */
+export class OIDCAuthAdapter extends SessionAwareAdapter {
+    readonly issuer: string;
+    readonly audience: string;
+    readonly jwks: URL;
+    readonly claim: string;
+    readonly clockTolerance: number;
+    userAccountEntity: Cfg<Entity>;
+    private _keys: Map<string, KeyObject>;
+    private _keysLoaded: number;
+
+    static KEYS_RELOAD_INTERVAL = 1000*60;
+
+    constructor(config: TypeCfg<OIDCAdapterSpec>,
+                blueprints: Map<string, any>) {
+        super(config, blueprints);
+        this.issuer = config.spec.issuer;
+        this.audience = config.spec.audience;
+        this.claim = config.spec.claim;
+        this.clockTolerance = config.spec.clockTolerance ?? 60;
+        if (!this.issuer || !this.audience || !this.claim) {
+            throw new AuthenticationError(
+                `Invalid OIDCAuthAdapter configuration ${this.name}, ` +
+                `issuer, audience and claim are required`);
+        }
+        this.jwks = new URL(config.spec.jwks);
+        this.userAccountEntity = new Cfg("useraccount");
+        this._keys = new Map();
+        this._keysLoaded = 0;
+    }
+
+    configure(configuration: IConfiguration): void {
+        super.configure(configuration);
+        this.userAccountEntity.v = configuration.getEntity("useraccount");
+    }
+
+    private async loadKeys(): Promise<void> {
+        let contents: string;
+        if (this.jwks.protocol == "file:") {
+            contents = await readFile(this.jwks, { encoding: "utf8" });
+        } else {
+            const response = await fetch(this.jwks);
+            if (!response.ok) {
+                throw new AuthenticationError(
+                    `Cannot load JWKS ${this.jwks}: ${response.status}`);
+            }
+            contents = await response.text();
+        }
+        const keySet = JSON.parse(contents) as { keys: JwkType[] };
+        const keys: Map<string, KeyObject> = new Map();
+        for (const entry of keySet.keys || []) {
+            if (entry.use && entry.use != "sig") {
+                continue;
+            }
+            // Only RS256 tokens are accepted, other keys are of no use
+            if (entry.kty != "RSA" || (entry.alg && entry.alg != "RS256")) {
+                this.logger.debug(
+                    `Skipping key ${entry.kid}: ${entry.kty} ${entry.alg}`);
+                continue;
+            }
+            const jwk = new Jwk(entry);
+            keys.set(jwk.kid, jwk.toKeyObject());
+        }
+        this._keys = keys;
+        this._keysLoaded = Date.now();
+        this.logger.info(`Loaded ${keys.size} key(s) from ${this.jwks}`);
+    }
+
+    /* Providers rotate their keys, so an unknown 'kid' reloads the key set,
+     * at most once per KEYS_RELOAD_INTERVAL.
+     */
+    private async getKey(kid: string): Promise<KeyObject> {
+        let key = this._keys.get(kid);
+        if (!key && Date.now() - this._keysLoaded >
+                OIDCAuthAdapter.KEYS_RELOAD_INTERVAL) {
+            await this.loadKeys();
+            key = this._keys.get(kid);
+        }
+        if (!key) {
+            this.logger.error(`OIDC login blocked, unknown key id: ${kid}`);
+            throw new AuthenticationError("Authentication error", 403);
+        }
+        return key;
+    }
+
+    private static isObject(value: any): boolean {
+        return typeof value == "object" && value !== null &&
+            !(value instanceof Array);
+    }
+
+    private reject(reason: string): never {
+        this.logger.error(`OIDC login blocked: ${reason}`);
+        throw new AuthenticationError("Authentication error", 403);
+    }
+
+    private async validate(token: string): Promise<JwtClaims> {
+        const parts = token.split(".");
+        if (parts.length != 3) {
+            this.reject("token does not have three components");
+        }
+        let header: JwtHeader;
+        let claims: JwtClaims;
+        try {
+            header = JSON.parse(
+                Buffer.from(parts[0], "base64url").toString()) as JwtHeader;
+            claims = JSON.parse(
+                Buffer.from(parts[1], "base64url").toString()) as JwtClaims;
+        } catch (error) {
+            this.reject("cannot parse token");
+        }
+        if (!OIDCAuthAdapter.isObject(header) ||
+            !OIDCAuthAdapter.isObject(claims)) {
+            this.reject("token header or claims are not objects");
+        }
+        if (header.alg != "RS256") {
+            this.reject(`unsupported algorithm: ${header.alg}`);
+        }
+        const key = await this.getKey(header.kid || "");
+        const signed = verify(
+            "RSA-SHA256", Buffer.from(`${parts[0]}.${parts[1]}`), key,
+            Buffer.from(parts[2], "base64url"));
+        if (!signed) {
+            this.reject("invalid signature");
+        }
+        if (claims.iss != this.issuer) {
+            this.reject(`invalid issuer: ${claims.iss}`);
+        }
+        const audience = claims.aud instanceof Array ?
+            claims.aud : [claims.aud];
+        if (!audience.includes(this.audience)) {
+            this.reject(`invalid audience: ${claims.aud}`);
+        }
+        const now = Math.floor(Date.now() / 1000);
+        if (typeof claims.exp != "number" ||
+            claims.exp + this.clockTolerance <= now) {
+            this.reject(`token expired: ${claims.exp}`);
+        }
+        if (typeof claims.nbf == "number" &&
+            claims.nbf - this.clockTolerance > now) {
+            this.reject(`token not yet valid: ${claims.nbf}`);
+        }
+        return claims;
+    }
+
+    private async getActiveUserId(useraccountnum: string): Promise<string> {
+        const filter = new Filter()
+            .op("useraccountnum", "=", useraccountnum);
+        const userRow = await this.source.v.getQueryOne(
+            this.logger, NOCONTEXT, this.userAccountEntity.v, filter);
+        if (userRow.empty) {
+            this.reject(`no useraccount found for ${useraccountnum}`);
+        }
+        if (userRow.get("status") != "ACTIVE") {
+            this.reject(
+                `useraccount ${useraccountnum} is ${userRow.get("status")}`);
+        }
+        return userRow.getString("_id");
+    }
+
+    protected async payloadHandler(payload: JsonObject,
+                                   request: IncomingMessage,
+                                   response: ServerResponse,
+                                   uriElements: string[],
+                                   resource?: string,
+                                   id?: string): Promise<void> {
+        const token = payload["id_token"];
+        if (typeof token != "string" || !token) {
+            throw new AuthenticationError("Cannot parse payload");
+        }
+        const claims = await this.validate(token);
+        const useraccountnum = claims[this.claim];
+        if (typeof useraccountnum != "string" || !useraccountnum) {
+            this.reject(`missing claim: ${this.claim}`);
+        }
+        const userId = await this.guardLogin(
+            request, useraccountnum,
+            () => this.getActiveUserId(useraccountnum));
+        const sessionRow = await this.sessionBackend.v.createSession(
+            this.logger, userId);
+
+        const personaName = sessionRow.get("persona");
+        const persona = this.personas.v.get(personaName);
+        if (!persona) {
+            throw new AuthenticationError(
+                `Invalid persona: ${personaName}`, 403);
+        }
+
+        const sessionContext = new SessionContext(sessionRow, persona);
+        this.sessionCache.v.set(sessionContext.sessionId, sessionContext);
+        this.logger.info(
+            `OIDC authentication successful for username: ${useraccountnum}`);
+        response.end(JSON.stringify(Row.rowToData(sessionRow)));
+    }
+
+    handle(request: IncomingMessage, response: ServerResponse,
+           uriElements: string[]): void {
+        try {
+            if (request.method != "POST") {
+                throw new AdapterError(
+                    `Invalid OIDC request method: ${request.method}`);
+            }
+            this.handlePayload(request, response, uriElements);
+        } catch (error) {
+            AdapterError.toResponse(this.logger, error, response);
+        }
+    }
+}
+
+/* Self-service password reset:
+ *
+ *     POST pwreset { "username": "WILSONB" }
+ *     PUT  pwreset { "username": "WILSONB", "token": "...",
+ *                    "password": "<new password>" }
+ *
+ * The first sends a single-use token to the user's email address and
+ * always answers the same, so it cannot be used to discover usernames. Only
+ * a hash of the token is stored. The second replaces the login and ends all
+ * sessions of the user.
+ */
+export class RZOPasswordResetAdapter extends SessionAwareAdapter {
+    readonly tokenLifetime: number;
+    resetEntity: Cfg<Entity>;
+    loginEntity: Cfg<Entity>;
+    userAccountEntity: Cfg<Entity>;
+    notifications: Cfg<INotificationService> | null;
+
+    static THIRTYMINUTES = 1000*30*60;
+
+    constructor(config: TypeCfg<PasswordResetAdapterSpec>,
+                blueprints: Map<string, any>) {
+        super(config, blueprints);
+        this.tokenLifetime =
+            config.spec.tokenLifetime || RZOPasswordResetAdapter.THIRTYMINUTES;
+        this.resetEntity = new Cfg("passwordreset");
+        this.loginEntity = new Cfg("login");
+        this.userAccountEntity = new Cfg("useraccount");
+        this.notifications = config.spec.notificationSource ?
+            new Cfg(config.spec.notificationSource) : null;
+    }
+
+    configure(configuration: IConfiguration): void {
+        super.configure(configuration);
+        this.resetEntity.v = configuration.getEntity("passwordreset");
+        this.loginEntity.v = configuration.getEntity("login");
+        this.userAccountEntity.v = configuration.getEntity("useraccount");
+        if (this.notifications) {
+            this.notifications.v = (<NotificationSource>configuration.getSource(
+                this.notifications.name).ensure(NotificationSource)).service;
+        }
+    }
+
+    static hashToken(token: string): string {
+        return createHash("sha256").update(token).digest("hex");
+    }
+
+    private async tokenDeletes(filter: Filter): Promise<BulkOperation[]> {
+        const existing = await this.source.v.getQuery(
+            this.logger, NOCONTEXT, this.resetEntity.v,
+            new Query(["_id"], filter));
+        const operations: BulkOperation[] = [];
+        while (await existing.nextRow()) {
+            operations.push({
+                action: "delete",
+                entity: this.resetEntity.v,
+                id: existing.getRow().getString("_id")
+            });
+        }
+        return operations;
+    }
+
+    private async requestReset(username: string,
+                               response: ServerResponse): Promise<void> {
+        const expiry = new Date(Date.now() + this.tokenLifetime);
+        const filter = new Filter().op("useraccountnum", "=", username);
+        const userRow = await this.source.v.getQueryOne(
+            this.logger, NOCONTEXT, this.userAccountEntity.v, filter);
+        if (userRow.empty || userRow.get("status") != "ACTIVE") {
+            this.logger.error(
+                `Password reset requested for unknown or inactive user: ` +
+                `${username}`);
+            response.end(JSON.stringify({ "expiry": expiry }));
+            return;
+        }
+        // A new request replaces any outstanding token
+        const operations = await this.tokenDeletes(filter);
+
+        const token = randomBytes(32).toString("base64url");
+        const state = await this.resetEntity.v.create(
+            NOCONTEXT, this.source.v);
+        const validations: Promise<SideEffects>[] = [];
+        validations.push(this.resetEntity.v.setValue(
+            state, "useraccountnum", username, NOCONTEXT));
+        validations.push(this.resetEntity.v.setValue(
+            state, "tokenhash", RZOPasswordResetAdapter.hashToken(token),
+            NOCONTEXT));
+        validations.push(this.resetEntity.v.setValue(
+            state, "expiry", expiry, NOCONTEXT));
+        await Promise.all(validations);
+        await this.resetEntity.v.validate("create", state, NOCONTEXT);
+        await this.resetEntity.v.activate("create", state, NOCONTEXT);
+        operations.push({
+            action: "post",
+            entity: this.resetEntity.v,
+            row: this.resetEntity.v.stateToRow(state)
+        });
+        if (this.notifications) {
+            operations.push(this.notifications.v.outboxOperation({
+                channel: "email",
+                recipient: userRow.getString("email"),
+                subject: "Your password reset token",
+                body: `Your password reset token is ${token}, it expires at ` +
+                    `${expiry.toISOString()}.`
+            }));
+        }
+        await this.source.v.bulk(this.logger, NOCONTEXT, operations);
+        if (this.notifications) {
+            this.logger.log(
+                `Password reset token created for User: ${username}, ` +
+                `Expiry: ${expiry}`);
+        } else {
+            this.logger.log(
+                `Password reset token created for User: ${username}, ` +
+                `Token: ${token}, Expiry: ${expiry}`);
+        }
+        response.end(JSON.stringify({ "expiry": expiry }));
+    }
+
+    private async confirmReset(row: Row,
+                               response: ServerResponse): Promise<void> {
+        if (!row.has("username") || !row.has("token") ||
+            !row.has("password")) {
+            throw new AuthenticationError("Cannot parse payload");
+        }
+        const username = row.getString("username");
+        const filter = new Filter()
+            .op("tokenhash", "=",
+                RZOPasswordResetAdapter.hashToken(row.getString("token")));
+        const resetRow = await this.source.v.getQueryOne(
+            this.logger, NOCONTEXT, this.resetEntity.v, filter);
+        if (resetRow.empty ||
+            resetRow.getString("useraccountnum") != username) {
+            this.logger.error(
+                `Password reset blocked due to an invalid token for ` +
+                `username: ${username}`);
+            throw new AuthenticationError("Authentication error", 403);
+        }
+        if (Date.now() > resetRow.get("expiry")) {
+            this.logger.error(
+                `Password reset token expired: ${resetRow.get("expiry")}, ` +
+                `username: ${username}`);
+            throw new AuthenticationError("Authentication error", 403);
+        }
+        const userFilter = new Filter().op("useraccountnum", "=", username);
+        const userRow = await this.source.v.getQueryOne(
+            this.logger, NOCONTEXT, this.userAccountEntity.v, userFilter);
+        if (userRow.empty) {
+            throw new AuthenticationError("Authentication error", 403);
+        }
+        // Validates (and hashes) the new password before anything changes
+        const state = await this.loginEntity.v.create(
+            NOCONTEXT, this.source.v);
+        const validations: Promise<SideEffects>[] = [];
+        validations.push(this.loginEntity.v.setValue(
+            state, "useraccountnum", username, NOCONTEXT));
+        validations.push(this.loginEntity.v.setValue(
+            state, "password", row.get("password"), NOCONTEXT));
+        await Promise.all(validations);
+
+        await this.loginEntity.v.validate("create", state, NOCONTEXT);
+        await this.loginEntity.v.activate("create", state, NOCONTEXT);
+
+        // The token is single-use, it is spent with the password change
+        const operations: BulkOperation[] = [{
+            action: "delete",
+            entity: this.resetEntity.v,
+            id: resetRow.getString("_id"),
+            mustExist: true
+        }];
+        const loginRow = await this.source.v.getQueryOne(
+            this.logger, NOCONTEXT, this.loginEntity.v, userFilter);
+        if (!loginRow.empty) {
+            operations.push({
+                action: "delete",
+                entity: this.loginEntity.v,
+                id: loginRow.getString("_id")
+            });
+        }
+        operations.push({
+            action: "post",
+            entity: this.loginEntity.v,
+            row: this.loginEntity.v.stateToRow(state)
+        });
+        const results = await this.source.v.bulk(
+            this.logger, NOCONTEXT, operations);
+        const resultRow = Row.must(results[results.length - 1].row);
+
+        const revoked = await this.revokeUserSessions(
+            userRow.getString("_id"), username);
+        this.logger.log(
+            `Password reset for username: ${username}, ended ` +
+            `${revoked} session(s)`);
+        resultRow.delete("password");
+        response.end(JSON.stringify(Row.rowToData(resultRow)));
+    }
+
+    protected async payloadHandler(payload: JsonObject,
+                                   request: IncomingMessage,
+                                   response: ServerResponse,
+                                   uriElements: string[],
+                                   resource?: string,
+                                   id?: string): Promise<void> {
+        const row = Row.dataToRow(payload);
+        const username = row.has("username") ? row.getString("username") : "";
+        if (!username) {
+            throw new AuthenticationError("Cannot parse payload");
+        }
+        if (request.method == "POST") {
+            await this.guardRequest(request, "pwreset", username);
+            await this.requestReset(username, response);
+        } else {
+            await this.guardLogin(
+                request, username, () => this.confirmReset(row, response));
+        }
+    }
+
+    handle(request: IncomingMessage, response: ServerResponse,
+           uriElements: string[]): void {
+        try {
+            if (request.method != "POST" && request.method != "PUT") {
+                throw new AdapterError(
+                    `Invalid password reset request method: ` +
+                    `${request.method}`);
+            }
+            this.handlePayload(request, response, uriElements);
+        } catch (error) {
+            AdapterError.toResponse(this.logger, error, response);
+        }
+    }
+}
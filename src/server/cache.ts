@@ -17,6 +17,8 @@
     along with this program.  If not, see <https://www.gnu.org/licenses/>.
 */
 
+import { createHash } from "node:crypto";
+
 import {
     ClassSpec, TypeCfg, IConfiguration, DaemonWorker, _IError, Cfg, Logger,
     ServiceSource
@@ -34,26 +36,59 @@ class CacheError extends _IError {
 
 export interface ICache {
     get isCache(): boolean;
-    set(key: string, value: any): void;
+    set(key: string, value: any, owner?: string): void;
     get(key: string): any | null;
     has(key: string): boolean;
     delete(key: string): void;
+    publish(topic: string, key: string): void;
+}
+
+export type InvalidationListener = (key: string) => void;
+
+/* Called when invalidations may have been missed, for example while the
+ * bus was disconnected, so everything cached for the topic is suspect.
+ */
+export type InvalidationResetListener = () => void;
+
+export interface IInvalidationBus {
+    get isInvalidationBus(): boolean;
+    subscribe(topic: string, listener: InvalidationListener,
+              onReset?: InvalidationResetListener): Promise<void>;
+    unsubscribe(topic: string,
+                listener: InvalidationListener): Promise<void>;
+    publish(topic: string, key: string): Promise<void>;
 }
 
+// Invalidates everything cached for a useraccountnum
+export const USERACCOUNT_TOPIC = "useraccount";
+
+/* A cache with an 'invalidationBus' broadcasts its deletes to the same
+ * cache on all servers. It also drops the keys invalidated on any of the
+ * 'invalidatedBy' topics. Keys like session ids are credentials, so deletes
+ * are broadcast, and logged, as a hash of the key.
+ */
 type APICacheWorkerSpec = ClassSpec & {
     ttl: number;
     cacheCheckFrequency: number;
+    invalidationBus?: string;
+    invalidatedBy?: string[];
 }
 
 type CacheWorkerSpec = APICacheWorkerSpec & {
     leaderElector: string;
     sessionBackendSource: string;
     backendCheckFrequency: number;
+    revocationCheckFrequency?: number;
 }
 
+/* An entry with an 'owner' is also evicted when the owner is invalidated,
+ * for entries keyed by something else than what the topic publishes.
+ */
 export type CacheEntry = {
     value: any;
     expires: Date;
+    hash: string;
+    owner?: string;
 }
 
 export class APICacheWorker extends DaemonWorker implements ICache {
@@ -62,6 +97,8 @@ export class APICacheWorker extends DaemonWorker implements ICache {
     readonly cacheCheckFrequency: number;
     private _cacheCheckId: NodeJS.Timeout | null;
     private _cache: Map<string, CacheEntry>;
+    bus: Cfg<IInvalidationBus> | null;
+    readonly topics: string[];
     logger: Logger;
 
     constructor(config: TypeCfg<APICacheWorkerSpec>,
@@ -77,6 +114,9 @@ export class APICacheWorker extends DaemonWorker implements ICache {
         }
         this._cacheCheckId = null;
         this._cache = new Map();
+        this.bus = config.spec.invalidationBus ?
+            new Cfg(config.spec.invalidationBus) : null;
+        this.topics = [this.name].concat(config.spec.invalidatedBy || []);
         this.logger = new Logger(`cache/${this.name}`);
     }
 
@@ -84,8 +124,21 @@ export class APICacheWorker extends DaemonWorker implements ICache {
         return true;
     }
 
+    static keyHash(key: string): string {
+        return createHash("sha256").update(key).digest("hex");
+    }
+
     configure(configuration: IConfiguration): void {
         this.logger.configure(configuration);
+        if (this.bus) {
+            const bus: unknown = configuration.workers.get(this.bus.name);
+            if (!bus || !((<any>bus).isInvalidationBus)) {
+                throw new CacheError(
+                    `Invalid Cache: ${this.name}: worker ${this.bus.name} ` +
+                    `does not exist or it is not an invalidation bus`);
+            }
+            this.bus.v = <IInvalidationBus>bus;
+        }
         configuration.registerAsyncTask(this);
     }
 
@@ -96,7 +149,7 @@ export class APICacheWorker extends DaemonWorker implements ICache {
             if (entry[1].expires <= now) {
                 evicts.push(entry[0]);
                 this.logger.debug(
-                    `Cache ${this.name} evicting key '${entry[0]}'`);
+                    `Cache ${this.name} evicting key hash ${entry[1].hash}`);
             }
         }
         for (const key of evicts) {
@@ -108,6 +161,15 @@ export class APICacheWorker extends DaemonWorker implements ICache {
         this._cacheCheckId = setInterval(() => {
             this.updateCache();
         }, this.cacheCheckFrequency);
+        if (this.bus) {
+            for (const topic of this.topics) {
+                await this.bus.v.subscribe(topic, (key) => {
+                    this.invalidated(topic, key);
+                }, () => {
+                    this.evictAll();
+                });
+            }
+        }
         this.logger.log(
             `Cache ${this.name} started with cacheCheckFrequency: ` +
             `${this.cacheCheckFrequency}; ttl = ${this.ttl}`);
@@ -120,9 +182,13 @@ export class APICacheWorker extends DaemonWorker implements ICache {
         this.logger.log(`Cache ${this.name} stopped`);
     }
 
-    set(key: string, value: any): CacheEntry {
-        const entry =
-            { value: value, expires: new Date(Date.now() + this.ttl) };
+    set(key: string, value: any, owner?: string): CacheEntry {
+        const entry = {
+            value: value,
+            expires: new Date(Date.now() + this.ttl),
+            hash: APICacheWorker.keyHash(key),
+            owner: owner
+        };
         this._cache.set(key, entry);
         return entry;
     }
@@ -147,14 +213,65 @@ export class APICacheWorker extends DaemonWorker implements ICache {
         return this._cache.has(key);
     }
 
+    keys(): string[] {
+        return Array.from(this._cache.keys());
+    }
+
     delete(key: string): void {
         this._cache.delete(key);
+        this.publish(this.name, APICacheWorker.keyHash(key));
+    }
+
+    // Deletes 'key' and the entries it owns from this server's cache only
+    protected evict(key: string): void {
+        this._cache.delete(key);
+        for (const [entryKey, entry] of this._cache.entries()) {
+            if (entry.owner == key) {
+                this._cache.delete(entryKey);
+            }
+        }
+    }
+
+    // The own topic carries key hashes, the 'invalidatedBy' topics keys
+    private invalidated(topic: string, key: string): void {
+        if (topic != this.name) {
+            this.evict(key);
+            return;
+        }
+        for (const [entryKey, entry] of this._cache.entries()) {
+            if (entry.hash == key) {
+                this.evict(entryKey);
+            }
+        }
+    }
+
+    protected evictAll(): void {
+        this.logger.log(`Cache ${this.name} cleared, invalidations missed`);
+        this._cache.clear();
+    }
+
+    /* Broadcasts the invalidation of 'key' to the subscribers of 'topic'
+     * on all servers. Without a bus only this cache can be invalidated.
+     */
+    publish(topic: string, key: string): void {
+        if (this.bus) {
+            this.bus.v.publish(topic, key).catch((error) => {
+                this.logger.error(
+                    `Cache ${this.name} cannot publish invalidation on ` +
+                    `topic ${topic}`);
+                this.logger.exc(error);
+            });
+        } else if (this.topics.includes(topic)) {
+            this.invalidated(topic, key);
+        }
     }
 }
 
 export class CacheWorker extends APICacheWorker implements ICache {
     readonly backendCheckFrequency: number;
+    readonly revocationCheckFrequency: number;
     private _backendCheckId: NodeJS.Timeout | null;
+    private _revocationCheckId: NodeJS.Timeout | null;
     leaderElector: Cfg<LeaderElector>;
     sessionBackend: Cfg<ISessionBackendService>;
     private _leader: boolean;
@@ -163,12 +280,17 @@ export class CacheWorker extends APICacheWorker implements ICache {
                 blueprints: Map<string, any>) {
         super(config, blueprints);
         this.backendCheckFrequency = config.spec.backendCheckFrequency;
-        if (this.backendCheckFrequency < 1000) {
+        this.revocationCheckFrequency =
+            config.spec.revocationCheckFrequency || 0;
+        if (this.backendCheckFrequency < 1000 ||
+            (this.revocationCheckFrequency &&
+             this.revocationCheckFrequency < 1000)) {
             throw new CacheError(
                 `Invalid CacheWorker configuration ${this.name}, one or more ` +
                 `time/frequency values is below 1000`);
         }
         this._backendCheckId = null;
+        this._revocationCheckId = null;
         this._leader = false;
         this.leaderElector = new Cfg(config.spec.leaderElector);
         this.sessionBackend = new Cfg(config.spec.sessionBackendSource);
@@ -202,20 +324,55 @@ export class CacheWorker extends APICacheWorker implements ICache {
         }
     }
 
+    /* Sessions revoked on any server are deleted from the backend, every
+     * server evicts the cached sessions that no longer exist there.
+     */
+    protected checkRevocations(): void {
+        const keys = this.keys();
+        if (keys.length == 0) {
+            return;
+        }
+        this.sessionBackend.v.getExistingSessions(this.logger, keys)
+        .then((existing) => {
+            const found = new Set(existing);
+            for (const key of keys) {
+                if (!found.has(key)) {
+                    this.logger.debug(
+                        `Cache ${this.name} evicting revoked key hash ` +
+                        `${APICacheWorker.keyHash(key)}`);
+                    this.evict(key);
+                }
+            }
+        })
+        .catch((error) => {
+            this.logger.error("Cannot check for revoked sessions");
+            this.logger.exc(error);
+        });
+    }
+
     async start(): Promise<any> {
         super.start();
         this._backendCheckId = setInterval(() => {
             this.updateBackend();
         }, this.backendCheckFrequency);
+        if (this.revocationCheckFrequency) {
+            this._revocationCheckId = setInterval(() => {
+                this.checkRevocations();
+            }, this.revocationCheckFrequency);
+        }
         console.log(
             `Cache ${this.name} backendCheckFrequency: ` +
-            `${this.backendCheckFrequency}`);
+            `${this.backendCheckFrequency}; revocationCheckFrequency: ` +
+            `${this.revocationCheckFrequency}`);
     }
 
     async stop(): Promise<any> {
         if (this._backendCheckId) {
             clearInterval(this._backendCheckId);
         }
+        if (this._revocationCheckId) {
+            clearInterval(this._revocationCheckId);
+        }
         super.stop();
     }
 }
@@ -19,6 +19,19 @@
 
 import { Buffer } from "node:buffer";
 
+import {
+    createPublicKey, KeyObject, scrypt, pbkdf2, randomBytes, timingSafeEqual
+} from "node:crypto";
+
+import { promisify } from "node:util";
+
+const scryptAsync = promisify(scrypt) as
+    (password: string, salt: string, keylen: number,
+     options: { N: number, r: number, p: number,
+                maxmem: number }) => Promise<Buffer>;
+
+const pbkdf2Async = promisify(pbkdf2);
+
 import {
     _IError, FieldCfg, StringField, Entity, Phase, State, FieldState,
     IContext, SideEffects
@@ -33,6 +46,10 @@ class CryptoError extends _IError {
 export type JwkType = {
     n: string;
     e: string;
+    kty?: string;
+    kid?: string;
+    alg?: string;
+    use?: string;
 }
 
 export class Jwk {
@@ -46,6 +63,20 @@ export class Jwk {
         }
     }
 
+    get kid(): string {
+        return this.jwk.kid || "";
+    }
+
+    toKeyObject(): KeyObject {
+        if (this.jwk.kty && this.jwk.kty != "RSA") {
+            throw new CryptoError(`Unsupported key type: ${this.jwk.kty}`);
+        }
+        return createPublicKey({
+            key: { kty: "RSA", n: this.jwk.n, e: this.jwk.e },
+            format: "jwk"
+        });
+    }
+
     bytesNeeded(input: number): number {
         const bitsNeeded = Math.floor(Math.log2(input)) + 1;
         return Math.ceil(bitsNeeded / 8);
@@ -141,20 +172,110 @@ export class Jwk {
     }
 }
 
+/* 'cost' is the scrypt N or the PBKDF2 iteration count, it defaults to
+ * PasswordField.DEFAULT_COST for the algorithm.
+ */
 type PasswordFieldCfg = FieldCfg & {
     minLength: number;
     specials: string;
     minSpecials: number;
     minNumbers: number;
     algorithm: string;
+    cost?: number;
 }
 
+/* Stored password hashes are separated by '/':
+ *
+ *   [0:algorithm]/[1:salt]/[2:hex digest]             (legacy, SHA-based)
+ *   v2/[1:algorithm]/[2:cost]/[3:salt]/[4:base64url key]
+ *
+ * where a v2 algorithm is either 'scrypt' or 'pbkdf2-sha512'.
+ */
 export class PasswordField extends StringField {
     minLength: number;
     specials: string;
     minSpecials: number;
     minNumbers: number;
     algorithm: string;
+    cost: number;
+
+    static VERSION = "v2";
+    static KEY_LENGTH = 64;
+    static DEFAULT_COST: Record<string, number> = {
+        "scrypt": 16384,
+        "pbkdf2-sha512": 210000
+    };
+
+    static isKdf(algorithm: string): boolean {
+        return algorithm in PasswordField.DEFAULT_COST;
+    }
+
+    private static async derive(algorithm: string, input: string,
+                                salt: string, cost: number): Promise<Buffer> {
+        if (algorithm == "scrypt") {
+            return scryptAsync(input, salt, PasswordField.KEY_LENGTH, {
+                N: cost, r: 8, p: 1,
+                maxmem: 256 * cost * 8 + 1024 * 1024
+            });
+        } else if (algorithm == "pbkdf2-sha512") {
+            return pbkdf2Async(
+                input, salt, cost, PasswordField.KEY_LENGTH, "sha512");
+        }
+        throw new CryptoError(`Unsupported password algorithm: ${algorithm}`);
+    }
+
+    static async hash(algorithm: string, input: string,
+                      cost?: number): Promise<string> {
+        if (!PasswordField.isKdf(algorithm)) {
+            // Legacy configuration, keep the single SHA digest
+            const salt = crypto.randomUUID();
+            const digest = await PasswordField.digest(algorithm, input, salt);
+            return `${algorithm}/${salt}/${digest}`;
+        }
+        const rounds = cost || PasswordField.DEFAULT_COST[algorithm];
+        const salt = randomBytes(16).toString("base64url");
+        const key = await PasswordField.derive(algorithm, input, salt, rounds);
+        return `${PasswordField.VERSION}/${algorithm}/${rounds}/${salt}/` +
+            key.toString("base64url");
+    }
+
+    /* Compares in constant time, an unparseable stored hash never
+     * matches.
+     */
+    static async verify(input: string, stored: string): Promise<boolean> {
+        const components = stored.split("/");
+        let expected: Buffer;
+        let actual: Buffer;
+        if (components.length == 3) {
+            expected = Buffer.from(components[2], "hex");
+            actual = Buffer.from(await PasswordField.digest(
+                components[0], input, components[1]), "hex");
+        } else if (components.length == 5 &&
+                   components[0] == PasswordField.VERSION) {
+            const cost = parseInt(components[2]);
+            if (!cost) {
+                return false;
+            }
+            expected = Buffer.from(components[4], "base64url");
+            actual = await PasswordField.derive(
+                components[1], input, components[3], cost);
+        } else {
+            return false;
+        }
+        return expected.length == actual.length &&
+            timingSafeEqual(expected, actual);
+    }
+
+    needsRehash(stored: string): boolean {
+        if (!PasswordField.isKdf(this.algorithm)) {
+            return false;
+        }
+        const components = stored.split("/");
+        return components.length != 5 ||
+            components[0] != PasswordField.VERSION ||
+            components[1] != this.algorithm ||
+            parseInt(components[2]) != this.cost;
+    }
 
     static async digest(algorithm: string, input: string,
                         salt: string): Promise<string> {
@@ -182,6 +303,8 @@ export class PasswordField extends StringField {
         this.minSpecials = config.minSpecials;
         this.minNumbers = config.minNumbers;
         this.algorithm = config.algorithm;
+        this.cost =
+            config.cost || PasswordField.DEFAULT_COST[this.algorithm] || 0;
     }
 
     async validate(phase: Phase, state: State, fieldState: FieldState,
@@ -190,16 +313,20 @@ export class PasswordField extends StringField {
         if (phase == "set" && fieldState.dirtyNotNull) {
             const clearText = fieldState.asString;
             if (clearText.length < this.minLength) {
-                throw new CryptoError(
+                throw this.invalid(
+                    "minlength",
                     `${this.fqName}: must be at least ${this.minLength} ` +
-                    `characters`);
+                    `characters`,
+                    { minlength: this.minLength });
             }
             const nums = /[0-9]+/g;
             const numSearch = clearText.match(nums);
             if (!numSearch || numSearch.length < this.minNumbers) {
-                throw new CryptoError(
+                throw this.invalid(
+                    "format",
                     `${this.fqName} must have at least ${this.minNumbers} ` +
-                    ` number(s)`);
+                    ` number(s)`,
+                    { minNumbers: this.minNumbers });
             }
             let specCount = 0;
             for (const spec of this.specials) {
@@ -213,10 +340,12 @@ export class PasswordField extends StringField {
                 }
             }
             if (specCount < this.minSpecials) {
-                throw new CryptoError(
+                throw this.invalid(
+                    "format",
                     `${this.fqName} does not have the required number of ` +
                     `special characters: ${this.minSpecials} from ` +
-                    `${this.specials} `);
+                    `${this.specials} `,
+                    { minSpecials: this.minSpecials, specials: this.specials });
             }
         }
     }
@@ -226,10 +355,8 @@ export class PasswordField extends StringField {
         const sideEffects =
             await super.activate(phase, state, fieldState, context);
         if (phase == "set" && fieldState.dirtyNotNull) {
-            const salt = crypto.randomUUID();
-            const digest = await PasswordField.digest(
-                this.algorithm, fieldState.asString, salt);
-            fieldState.value = `${this.algorithm}/${salt}/${digest}`;
+            fieldState.value = await PasswordField.hash(
+                this.algorithm, fieldState.asString, this.cost);
         }
         return sideEffects;
     }
@@ -0,0 +1,625 @@
+/*
+    RZO - A Business Application Framework
+
+    Copyright (C) 2024 Frank Vanderham
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU General Public License as published by
+    the Free Software Foundation, either version 3 of the License, or
+    (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU General Public License for more details.
+
+    You should have received a copy of the GNU General Public License
+    along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import { appendFile } from "node:fs/promises";
+import {
+    Server, Socket, connect as netConnect, createServer
+} from "node:net";
+import { connect as tlsConnect } from "node:tls";
+import { hostname } from "node:os";
+
+import {
+    _IError, Cfg, TypeCfg, IConfiguration, Logger, Source, ClassSpec,
+    DaemonWorker, BulkOperation
+} from "../base/core.js";
+
+class NotificationError extends _IError {
+    constructor(message: string, code?: number, options?: ErrorOptions) {
+        super(code || 500, message, options);
+    }
+}
+
+export type NotificationChannel = "email" | "sms";
+
+export type Notification = {
+    channel: NotificationChannel;
+    recipient: string;
+    subject: string;
+    body: string;
+}
+
+export type OutboxEntry = Notification & {
+    id: string;
+    attempts: number;
+}
+
+/* Notifications are written to an outbox table first, an OutboxDrainer
+ * delivers them. 'claim' leases a batch of pending entries for 'lease'
+ * milliseconds, so parallel servers never deliver the same entry twice.
+ * A null 'retryAt' in 'markFailed' gives up on the entry.
+ *
+ * 'outboxOperation' returns the outbox write of a notification, to be passed
+ * to IService.bulk() with the writes it belongs to, so both commit or roll
+ * back together. The outbox must be in the same database as that service.
+ */
+export interface INotificationService {
+    get isNotificationService(): boolean;
+    enqueue(logger: Logger, notification: Notification): Promise<void>;
+    outboxOperation(notification: Notification): BulkOperation;
+    claim(logger: Logger, batchSize: number,
+          lease: number): Promise<OutboxEntry[]>;
+    markSent(logger: Logger, id: string): Promise<void>;
+    markFailed(logger: Logger, id: string, error: string,
+               retryAt: Date | null): Promise<void>;
+}
+
+export class NotificationSource extends Source {
+
+    constructor(config: TypeCfg<ClassSpec>, blueprints: Map<string, any>) {
+        super(config, blueprints);
+    }
+
+    configure(configuration: IConfiguration): void {
+    }
+
+    get service(): INotificationService {
+        throw new NotificationError(
+            `NotificationSource ${this.name} has an undefined service`);
+    }
+}
+
+export interface INotificationSender {
+    get isNotificationSender(): boolean;
+    send(logger: Logger, notification: Notification): Promise<void>;
+}
+
+/* For local development: prints every notification, including its body.
+ */
+export class ConsoleSender extends DaemonWorker implements INotificationSender {
+
+    get isNotificationSender(): boolean {
+        return true;
+    }
+
+    async send(logger: Logger, notification: Notification): Promise<void> {
+        logger.log(
+            `${notification.channel} to ${notification.recipient}: ` +
+            `${notification.subject}\n${notification.body}`);
+    }
+}
+
+type FileSenderSpec = ClassSpec & {
+    path: string;
+}
+
+/* For local development: appends every notification as a line of JSON.
+ */
+export class FileSender extends DaemonWorker implements INotificationSender {
+    readonly path: string;
+
+    constructor(config: TypeCfg<FileSenderSpec>,
+                blueprints: Map<string, any>) {
+        super(config, blueprints);
+        this.path = config.spec.path;
+        if (!this.path) {
+            throw new NotificationError(
+                `Invalid FileSender configuration ` +
+                `${config.metadata.name}, path is required`);
+        }
+    }
+
+    get isNotificationSender(): boolean {
+        return true;
+    }
+
+    async send(logger: Logger, notification: Notification): Promise<void> {
+        const line = JSON.stringify({ sent: new Date(), ...notification });
+        await appendFile(this.path, `${line}\n`, { encoding: "utf8" });
+    }
+}
+
+/* 'secure' connects with TLS from the start (usually port 465), otherwise
+ * the connection switches to TLS with STARTTLS when the server offers it.
+ * A plain text connection is only suitable for a local relay, the
+ * credentials are never sent over one.
+ */
+type SmtpSenderSpec = ClassSpec & {
+    host: string;
+    port: number;
+    secure?: boolean;
+    username?: string;
+    password?: string;
+    from: string;
+    timeout?: number;
+}
+
+class SmtpConversation {
+    private socket: Socket;
+    private buffer: string;
+    private waiting: ((reply: string) => void) | null;
+    private failed: ((error: Error) => void) | null;
+    private closed: Error | null;
+
+    constructor(socket: Socket) {
+        this.socket = socket;
+        this.buffer = "";
+        this.waiting = null;
+        this.failed = null;
+        this.closed = null;
+        socket.setEncoding("utf8");
+        socket.on("data", (data: string) => {
+            this.buffer += data;
+            this.deliver();
+        });
+        socket.on("error", (error) => {
+            this.fail(error);
+        });
+        socket.on("timeout", () => {
+            this.fail(new NotificationError("SMTP connection timed out"));
+            socket.destroy();
+        });
+        // A server that hangs up never replies, so a waiting reply() fails
+        socket.on("end", () => {
+            this.hangUp();
+        });
+        socket.on("close", () => {
+            this.hangUp();
+        });
+    }
+
+    private hangUp(): void {
+        if (!this.closed) {
+            this.closed = new NotificationError("SMTP connection closed", 502);
+        }
+        this.fail(this.closed);
+    }
+
+    private fail(error: Error): void {
+        const failed = this.failed;
+        this.waiting = null;
+        this.failed = null;
+        if (failed) {
+            failed(error);
+        }
+    }
+
+    /* A reply is complete at a line with a space after its code, earlier
+     * lines of a multi-line reply have a '-' there.
+     */
+    private deliver(): void {
+        if (!this.waiting) {
+            return;
+        }
+        const lines = this.buffer.split("\r\n");
+        for (let index = 0; index < lines.length - 1; index++) {
+            if (lines[index].charAt(3) != "-") {
+                const reply = lines.slice(0, index + 1).join("\n");
+                this.buffer = lines.slice(index + 1).join("\r\n");
+                const waiting = this.waiting;
+                this.waiting = null;
+                this.failed = null;
+                waiting(reply);
+                return;
+            }
+        }
+    }
+
+    reply(expected: string): Promise<string> {
+        return new Promise((resolve, reject) => {
+            this.waiting = (reply) => {
+                if (reply.startsWith(expected)) {
+                    resolve(reply);
+                } else {
+                    reject(new NotificationError(
+                        `Unexpected SMTP reply: ${reply}`, 502));
+                }
+            };
+            this.failed = reject;
+            this.deliver();
+            // Replies buffered before the hang up are still delivered
+            if (this.closed) {
+                this.fail(this.closed);
+            }
+        });
+    }
+
+    command(line: string, expected: string): Promise<string> {
+        const reply = this.reply(expected);
+        this.socket.write(`${line}\r\n`);
+        return reply;
+    }
+
+    close(): void {
+        this.socket.end();
+    }
+
+    /* Hands the socket over to a TLS conversation. Errors on the socket
+     * also fail the TLS socket, so they are left to it.
+     */
+    release(): Socket {
+        for (const event of ["data", "error", "timeout", "end", "close"]) {
+            this.socket.removeAllListeners(event);
+        }
+        this.socket.on("error", () => undefined);
+        return this.socket;
+    }
+}
+
+export class SmtpSender extends DaemonWorker implements INotificationSender {
+    readonly name: string;
+    readonly host: string;
+    readonly port: number;
+    readonly secure: boolean;
+    readonly username: string;
+    readonly password: string;
+    readonly from: string;
+    readonly timeout: number;
+
+    constructor(config: TypeCfg<SmtpSenderSpec>,
+                blueprints: Map<string, any>) {
+        super(config, blueprints);
+        this.name = config.metadata.name;
+        this.host = config.spec.host;
+        this.port = config.spec.port;
+        this.secure = !!config.spec.secure;
+        this.username = config.spec.username || "";
+        this.password = config.spec.password || "";
+        this.from = config.spec.from;
+        this.timeout = config.spec.timeout || 30000;
+        if (!this.host || !this.port || !this.from) {
+            throw new NotificationError(
+                `Invalid SmtpSender configuration ${this.name}, host, port ` +
+                `and from are required`);
+        }
+    }
+
+    get isNotificationSender(): boolean {
+        return true;
+    }
+
+    private connect(): Socket {
+        const options = { host: this.host, port: this.port };
+        const socket = this.secure ? tlsConnect(options) : netConnect(options);
+        socket.setTimeout(this.timeout);
+        return socket;
+    }
+
+    private async startTls(
+        smtp: SmtpConversation): Promise<SmtpConversation> {
+        await smtp.command("STARTTLS", "220");
+        const socket = tlsConnect(
+            { socket: smtp.release(), servername: this.host });
+        socket.setTimeout(this.timeout);
+        const secured = new SmtpConversation(socket);
+        // The server forgets everything it learned before STARTTLS
+        await secured.command(`EHLO ${hostname()}`, "250");
+        return secured;
+    }
+
+    // Line breaks in a header value would inject headers or commands
+    private static header(value: string): string {
+        return value.replace(/[\r\n]+/g, " ");
+    }
+
+    private message(notification: Notification): string {
+        const headers = [
+            `From: ${this.from}`,
+            `To: ${SmtpSender.header(notification.recipient)}`,
+            `Subject: ${SmtpSender.header(notification.subject)}`,
+            `Date: ${new Date().toUTCString()}`,
+            "MIME-Version: 1.0",
+            "Content-Type: text/plain; charset=utf-8",
+            "Content-Transfer-Encoding: 8bit"
+        ];
+        // Dot-stuffing, a line with a single '.' ends the DATA section
+        const body = notification.body.replace(/\r?\n/g, "\r\n")
+            .split("\r\n")
+            .map((line) => line.startsWith(".") ? `.${line}` : line)
+            .join("\r\n");
+        return `${headers.join("\r\n")}\r\n\r\n${body}\r\n.`;
+    }
+
+    async send(logger: Logger, notification: Notification): Promise<void> {
+        if (notification.channel != "email") {
+            throw new NotificationError(
+                `SmtpSender ${this.name} cannot send ` +
+                `${notification.channel} notifications`);
+        }
+        const recipient = SmtpSender.header(notification.recipient);
+        let smtp = new SmtpConversation(this.connect());
+        try {
+            await smtp.reply("220");
+            const features = await smtp.command(`EHLO ${hostname()}`, "250");
+            let secure = this.secure;
+            if (!secure && /^250[ -]STARTTLS$/im.test(features)) {
+                smtp = await this.startTls(smtp);
+                secure = true;
+            }
+            if (this.username) {
+                if (!secure) {
+                    throw new NotificationError(
+                        `SmtpSender ${this.name} will not send credentials ` +
+                        `over plain text, ${this.host} does not offer ` +
+                        `STARTTLS`);
+                }
+                const credentials = Buffer.from(
+                    `\0${this.username}\0${this.password}`).toString("base64");
+                await smtp.command(`AUTH PLAIN ${credentials}`, "235");
+            }
+            await smtp.command(`MAIL FROM:<${this.from}>`, "250");
+            await smtp.command(`RCPT TO:<${recipient}>`, "25");
+            await smtp.command("DATA", "354");
+            await smtp.command(this.message(notification), "250");
+            await smtp.command("QUIT", "221");
+            logger.info(`Sent '${notification.subject}' to ${recipient}`);
+        } finally {
+            smtp.close();
+        }
+    }
+}
+
+type SmtpListenerSpec = ClassSpec & {
+    host?: string;
+    port: number;
+}
+
+/* For local development: a fake SMTP server that accepts every message and
+ * logs it instead of delivering it. It offers neither STARTTLS nor AUTH, so
+ * point an SmtpSender without credentials at it.
+ */
+export class SmtpListener extends DaemonWorker {
+    readonly name: string;
+    readonly host: string;
+    readonly port: number;
+    private server: Server | null;
+    logger: Logger;
+
+    constructor(config: TypeCfg<SmtpListenerSpec>,
+                blueprints: Map<string, any>) {
+        super(config, blueprints);
+        this.name = config.metadata.name;
+        this.host = config.spec.host || "localhost";
+        this.port = config.spec.port;
+        if (!this.port) {
+            throw new NotificationError(
+                `Invalid SmtpListener configuration ${this.name}, port is ` +
+                `required`);
+        }
+        this.server = null;
+        this.logger = new Logger(`notification/${this.name}`);
+    }
+
+    configure(configuration: IConfiguration): void {
+        this.logger.configure(configuration);
+        configuration.registerAsyncTask(this);
+    }
+
+    private converse(socket: Socket): void {
+        let buffer = "";
+        let message: string[] | null = null;
+        const reply = (line: string) => {
+            socket.write(`${line}\r\n`);
+        };
+        socket.setEncoding("utf8");
+        socket.on("error", (error) => {
+            this.logger.error(
+                `SmtpListener ${this.name} connection failed: ` +
+                `${error.message}`);
+        });
+        socket.on("data", (data: string) => {
+            buffer += data;
+            let end: number;
+            while ((end = buffer.indexOf("\r\n")) >= 0) {
+                const line = buffer.substring(0, end);
+                buffer = buffer.substring(end + 2);
+                if (message) {
+                    if (line == ".") {
+                        this.logger.log(
+                            `Received message:\n${message.join("\n")}`);
+                        message = null;
+                        reply("250 OK");
+                    } else {
+                        // Undo the dot-stuffing of the sender
+                        message.push(
+                            line.startsWith(".") ? line.substring(1) : line);
+                    }
+                    continue;
+                }
+                switch (line.split(" ", 1)[0].toUpperCase()) {
+                    case "EHLO":
+                    case "HELO":
+                        reply(`250 ${hostname()}`);
+                        break;
+                    case "MAIL":
+                    case "RCPT":
+                    case "RSET":
+                    case "NOOP":
+                        reply("250 OK");
+                        break;
+                    case "DATA":
+                        message = [];
+                        reply("354 End data with <CR><LF>.<CR><LF>");
+                        break;
+                    case "QUIT":
+                        reply("221 Bye");
+                        socket.end();
+                        return;
+                    default:
+                        reply("502 Command not implemented");
+                }
+            }
+        });
+        reply(`220 ${hostname()} ESMTP`);
+    }
+
+    async start(): Promise<any> {
+        const server = createServer((socket) => this.converse(socket));
+        await new Promise<void>((resolve, reject) => {
+            server.once("error", reject);
+            server.listen(this.port, this.host, () => {
+                server.off("error", reject);
+                resolve();
+            });
+        });
+        this.server = server;
+        this.logger.log(
+            `SmtpListener ${this.name} listening on ${this.host}:${this.port}`);
+    }
+
+    async stop(): Promise<any> {
+        const server = this.server;
+        if (server) {
+            this.server = null;
+            await new Promise<void>((resolve) => {
+                server.close(() => resolve());
+            });
+        }
+        this.logger.log(`SmtpListener ${this.name} stopped`);
+    }
+}
+
+/* Delivers pending outbox entries through 'sender' every 'drainFrequency'
+ * milliseconds. A failed delivery is retried after 'retryDelay',
+ * doubling with every attempt, until 'maxAttempts' is reached.
+ */
+type OutboxDrainerSpec = ClassSpec & {
+    source: string;
+    sender: string;
+    drainFrequency: number;
+    batchSize: number;
+    maxAttempts: number;
+    retryDelay: number;
+}
+
+export class OutboxDrainer extends DaemonWorker {
+    readonly name: string;
+    readonly drainFrequency: number;
+    readonly batchSize: number;
+    readonly maxAttempts: number;
+    readonly retryDelay: number;
+    source: Cfg<INotificationService>;
+    sender: Cfg<INotificationSender>;
+    private _drainId: NodeJS.Timeout | null;
+    private _draining: Promise<void> | null;
+    logger: Logger;
+
+    static LEASE = 1000*60*5;
+
+    constructor(config: TypeCfg<OutboxDrainerSpec>,
+                blueprints: Map<string, any>) {
+        super(config, blueprints);
+        this.name = config.metadata.name;
+        this.drainFrequency = config.spec.drainFrequency;
+        this.batchSize = config.spec.batchSize;
+        this.maxAttempts = config.spec.maxAttempts;
+        this.retryDelay = config.spec.retryDelay;
+        if (this.drainFrequency < 1000) {
+            throw new NotificationError(
+                `Invalid OutboxDrainer configuration ${this.name}, ` +
+                `drainFrequency is below 1000`);
+        }
+        if (!this.batchSize || !this.maxAttempts || !this.retryDelay) {
+            throw new NotificationError(
+                `Invalid OutboxDrainer configuration ${this.name}, ` +
+                `batchSize, maxAttempts and retryDelay are required`);
+        }
+        this.source = new Cfg(config.spec.source);
+        this.sender = new Cfg(config.spec.sender);
+        this._drainId = null;
+        this._draining = null;
+        this.logger = new Logger(`notification/${this.name}`);
+    }
+
+    configure(configuration: IConfiguration): void {
+        this.logger.configure(configuration);
+        this.source.v = (<NotificationSource>configuration.getSource(
+            this.source.name).ensure(NotificationSource)).service;
+        const sender: unknown = configuration.workers.get(this.sender.name);
+        if (!sender || !((<any>sender).isNotificationSender)) {
+            throw new NotificationError(
+                `Invalid OutboxDrainer: ${this.name}: worker ` +
+                `${this.sender.name} does not exist or it is not a ` +
+                `notification sender`);
+        }
+        this.sender.v = <INotificationSender>sender;
+        configuration.registerAsyncTask(this);
+    }
+
+    private async deliver(entry: OutboxEntry): Promise<void> {
+        try {
+            await this.sender.v.send(this.logger, entry);
+            await this.source.v.markSent(this.logger, entry.id);
+        } catch (error) {
+            const message = error instanceof Error ?
+                error.message : "" + error;
+            this.logger.error(
+                `Delivery ${entry.attempts} of ${entry.id} to ` +
+                `${entry.recipient} failed: ${message}`);
+            const retryAt = entry.attempts >= this.maxAttempts ? null :
+                new Date(Date.now() +
+                         this.retryDelay * 2 ** (entry.attempts - 1));
+            await this.source.v.markFailed(
+                this.logger, entry.id, message, retryAt);
+        }
+    }
+
+    private async drainPending(): Promise<void> {
+        const entries = await this.source.v.claim(
+            this.logger, this.batchSize, OutboxDrainer.LEASE);
+        for (const entry of entries) {
+            await this.deliver(entry);
+        }
+    }
+
+    private async drain(): Promise<void> {
+        if (this._draining) {
+            return;
+        }
+        this._draining = this.drainPending();
+        try {
+            await this._draining;
+        } catch (error) {
+            this.logger.error("Failed to drain the notification outbox");
+            if (error instanceof Error) {
+                this.logger.exc(error);
+            }
+        } finally {
+            this._draining = null;
+        }
+    }
+
+    async start(): Promise<any> {
+        this._drainId = setInterval(() => {
+            this.drain();
+        }, this.drainFrequency);
+        this.logger.log(
+            `OutboxDrainer ${this.name} started with drainFrequency: ` +
+            `${this.drainFrequency}; batchSize = ${this.batchSize}`);
+    }
+
+    async stop(): Promise<any> {
+        if (this._drainId) {
+            clearInterval(this._drainId);
+        }
+        if (this._draining) {
+            await this._draining.catch(() => undefined);
+        }
+        this.logger.log(`OutboxDrainer ${this.name} stopped`);
+    }
+}
@@ -19,15 +19,15 @@
 
 import pg from "pg";
 import Pool from "pg-pool";
-import Cursor from "pg-cursor";
 
 import { env } from "node:process";
 
 import {
     Entity, IResultSet, IConfiguration, Query, AsyncTask, DaemonWorker,
-    EmptyResultSet, MemResultSet, Row, TypeCfg, ClassSpec, Collection,
+    EmptyResultSet, MemResultSet, PagedResultSet, Row, TypeCfg, ClassSpec, Collection,
     IContext, Filter, ServiceSource, _IError, Nobody, DeferredToken,
-    SummaryField, Persona, Cfg, IService, SideEffects, State, Logger
+    SummaryField, Persona, Cfg, IService, SideEffects, State, Logger,
+    BulkOperation, BulkResult
 } from "../base/core.js";
 
 import { VERSION, NOCONTEXT } from "../base/configuration.js";
@@ -39,6 +39,7 @@ import { ITaskRunner, Scheduler } from "../base/scheduler.js";
 
 import { MvccResult, MvccController } from "./mvcc.js";
 import { IElectorService, LeaderElector } from "./election.js";
+import { ILoginAttemptService } from "./throttle.js";
 
 class PgClientError extends _IError {
     constructor(message: string, code?: number, options?: ErrorOptions) {
@@ -61,6 +62,10 @@ class DeferredContext implements IContext {
     getSubject(key: string): string {
         return "";
     }
+
+    getMembers(key: string): string[] {
+        return [];
+    }
 }
 
 type PgConnectionSpec = ClassSpec & {
@@ -71,10 +76,33 @@ type PgConnectionSpec = ClassSpec & {
     pageSize: number;
 }
 
+type NotificationListener = (payload: string) => void;
+
+/* Called once the notification listener is connected again, any
+ * notifications sent while it was disconnected are lost.
+ */
+type ReconnectListener = () => void;
+
 export class PgConnection extends DaemonWorker {
+    private readonly poolConfig: pg.PoolConfig;
     private _conn_pool: Pool<pg.Client> | null;
+    private _listener: Promise<pg.Client> | null;
+    private listeners: Map<string, NotificationListener[]>;
+    // Channels LISTENed on the current listener client
+    private listened: Set<string>;
+    // The pending LISTEN or UNLISTEN of each channel
+    private channelSyncs: Map<string, Promise<void>>;
+    private reconnectListeners: Map<NotificationListener, ReconnectListener>;
+    private _reconnectId: NodeJS.Timeout | null;
+    private reconnectDelay: number;
+    private stopping: boolean;
     pageSize: number;
 
+    static ChannelRegex = /^[a-z_][a-z0-9_]*$/;
+    static CHANGES_CHANNEL = "rzo_changes";
+    static MIN_RECONNECT_DELAY = 1000;
+    static MAX_RECONNECT_DELAY = 60000;
+
     constructor(config: TypeCfg<PgConnectionSpec>,
                 blueprints: Map<string, any>) {
         super(config, blueprints);
@@ -82,20 +110,200 @@ export class PgConnection extends DaemonWorker {
             throw new PgClientError(
                 `Invalid pageSize: ${config.spec.pageSize}`, 400);
         }
-        this._conn_pool = new Pool({
+        this.poolConfig = {
             connectionTimeoutMillis: config.spec.connectionTimeoutMillis,
             idleTimeoutMillis: config.spec.idleTimeoutMillis,
             max: config.spec.max,
             allowExitOnIdle: config.spec.allowExitOnIdle
-        });
+        };
+        this._conn_pool = new Pool(this.poolConfig);
         this.pageSize = config.spec.pageSize;
+        this._listener = null;
+        this.listeners = new Map();
+        this.listened = new Set();
+        this.channelSyncs = new Map();
+        this.reconnectListeners = new Map();
+        this._reconnectId = null;
+        this.reconnectDelay = PgConnection.MIN_RECONNECT_DELAY;
+        this.stopping = false;
     }
 
     configure(configuration: IConfiguration): void {
         configuration.registerAsyncTask(this);
     }
 
+    private notify(channel: string, payload: string): void {
+        const listeners = this.listeners.get(channel);
+        if (listeners) {
+            for (const listener of Array.from(listeners)) {
+                listener(payload);
+            }
+        }
+    }
+
+    private async connectListener(): Promise<pg.Client> {
+        /* LISTEN is bound to a single connection, so notifications are
+         * received on a dedicated client outside of the pool, configured
+         * like the pooled ones.
+         */
+        const client = new pg.Client(this.poolConfig);
+        this.listened = new Set();
+        let lost = false;
+        const onLost = (error?: Error) => {
+            if (lost || this.stopping) {
+                return;
+            }
+            lost = true;
+            console.log("Notification listener lost, reconnecting");
+            if (error) {
+                console.log(error);
+            }
+            this._listener = null;
+            client.end().catch(() => {});
+            this.scheduleReconnect();
+        };
+        client.on("notification", (message) => {
+            this.notify(message.channel, message.payload || "");
+        });
+        client.on("error", onLost);
+        client.on("end", () => onLost());
+        try {
+            await client.connect();
+            for (const channel of this.listeners.keys()) {
+                await client.query(`listen ${channel}`);
+                this.listened.add(channel);
+            }
+            return client;
+        } catch (error) {
+            lost = true;
+            this._listener = null;
+            client.end().catch(() => {});
+            this.scheduleReconnect();
+            throw new PgClientError(
+                "Cannot start notification listener", 500, { cause: error });
+        }
+    }
+
+    /* Reconnects with an exponential backoff for as long as there are
+     * listeners, so channels come back without another listen().
+     */
+    private scheduleReconnect(): void {
+        if (this.stopping || this._reconnectId || this.listeners.size == 0) {
+            return;
+        }
+        const delay = this.reconnectDelay;
+        this.reconnectDelay =
+            Math.min(delay * 2, PgConnection.MAX_RECONNECT_DELAY);
+        this._reconnectId = setTimeout(() => {
+            this._reconnectId = null;
+            this.listenerClient().then(() => {
+                console.log("Notification listener reconnected");
+                this.reconnectDelay = PgConnection.MIN_RECONNECT_DELAY;
+                this.reconnected();
+            }).catch((error) => {
+                console.log("Cannot reconnect notification listener");
+                console.log(error);
+            });
+        }, delay);
+    }
+
+    private reconnected(): void {
+        for (const reconnectListener of
+                Array.from(this.reconnectListeners.values())) {
+            try {
+                reconnectListener();
+            } catch (error) {
+                console.log(error);
+            }
+        }
+    }
+
+    private listenerClient(): Promise<pg.Client> {
+        if (!this._listener) {
+            this._listener = this.connectListener();
+        }
+        return this._listener;
+    }
+
+    /* 'onReconnect' is called when the listener comes back after losing
+     * its connection, since notifications may have been missed.
+     */
+    async listen(channel: string, listener: NotificationListener,
+                 onReconnect?: ReconnectListener): Promise<void> {
+        if (!PgConnection.ChannelRegex.test(channel)) {
+            throw new PgClientError(`Invalid notification channel: ${channel}`);
+        }
+        const listeners = this.listeners.get(channel);
+        if (listeners) {
+            listeners.push(listener);
+        } else {
+            this.listeners.set(channel, [listener]);
+        }
+        if (onReconnect) {
+            this.reconnectListeners.set(listener, onReconnect);
+        }
+        await this.syncChannel(channel);
+    }
+
+    async unlisten(channel: string,
+                   listener: NotificationListener): Promise<void> {
+        const listeners = this.listeners.get(channel);
+        if (!listeners) {
+            return;
+        }
+        this.reconnectListeners.delete(listener);
+        const remaining = listeners.filter((current) => current != listener);
+        if (remaining.length > 0) {
+            this.listeners.set(channel, remaining);
+            return;
+        }
+        this.listeners.delete(channel);
+        await this.syncChannel(channel);
+    }
+
+    /* LISTENs or UNLISTENs 'channel' depending on whether it has listeners
+     * when it is its turn. The statements of a channel run one at a time,
+     * so an UNLISTEN cannot overtake a later LISTEN.
+     */
+    private syncChannel(channel: string): Promise<void> {
+        const previous = this.channelSyncs.get(channel) ?? Promise.resolve();
+        const sync = previous.catch(() => {}).then(async () => {
+            if (this.listeners.has(channel)) {
+                const client = await this.listenerClient();
+                if (!this.listened.has(channel)) {
+                    await client.query(`listen ${channel}`);
+                    this.listened.add(channel);
+                }
+            } else if (this._listener && this.listened.has(channel)) {
+                const client = await this._listener;
+                await client.query(`unlisten ${channel}`);
+                this.listened.delete(channel);
+            }
+        });
+        this.channelSyncs.set(channel, sync);
+        sync.catch(() => {}).then(() => {
+            if (this.channelSyncs.get(channel) == sync) {
+                this.channelSyncs.delete(channel);
+            }
+        });
+        return sync;
+    }
+
     async stop(): Promise<any> {
+        this.stopping = true;
+        if (this._reconnectId) {
+            clearTimeout(this._reconnectId);
+            this._reconnectId = null;
+        }
+        if (this._listener) {
+            const listener = this._listener;
+            this._listener = null;
+            try {
+                await (await listener).end();
+            } catch (error) {
+                console.log(error);
+            }
+        }
         if (this._conn_pool) {
             console.log("Ending connection pool...");
             await this._conn_pool.end();
@@ -212,30 +420,60 @@ export class PgBaseClient {
     private async getQueryOneImmutable(logger: Logger, context: IContext,
                                        entity: Entity,
                                        filter: Filter): Promise<Row> {
+        const compiled = filter.compile(entity);
         const statement =
-            `select * from ${entity.table} where (${filter.where}) limit 1`;
-        this.log(logger, statement);
-        const result = await this.pool.query(statement);
+            `select * from ${entity.table} where (${compiled.where}) limit 1`;
+        this.log(logger, statement, compiled.parameters);
+        const result = await this.pool.query(statement, compiled.parameters);
         if (result.rows.length === 0) {
             return new Row();
         }
         return Row.dataToRow(result.rows[0], entity);
     }
 
+    /* Immutable rows have no revisions, so this overwrites the given
+     * columns in place.
+     */
+    async updateImmutable(logger: Logger, context: IContext, entity: Entity,
+                          id: string, row: Row): Promise<void> {
+        if (!entity.immutable) {
+            throw new PgClientError(
+                `Entity ${entity.name} is not immutable`, 500);
+        }
+        const columns = row.columns;
+        const allowed = entity.allFieldColumns;
+        for (const column of columns) {
+            if (!allowed.includes(column)) {
+                throw new PgClientError(
+                    `Entity ${entity.name} has no column ${column}`, 400);
+            }
+        }
+        const assignments = columns.map(
+            (column, index) => `${column} = \$${index + 1}`);
+        const statement =
+            `update ${entity.table} set ${assignments.join(", ")} ` +
+            `where _id = \$${columns.length + 1}`;
+        const parameters = columns.map((column) => row.get(column));
+        parameters.push(id);
+        this.log(logger, statement, parameters);
+        await this.pool.query(statement, parameters);
+    }
+
     async getQueryOne(logger: Logger, context: IContext, entity: Entity,
                       filter: Filter): Promise<Row> {
         if (entity.immutable) {
             return await this.getQueryOneImmutable(
                 logger, context, entity, filter);
         }
+        const compiled = filter.compile(entity, [], "e");
         const statement =
             `select ${PgBaseClient.VC_COL_SELECT}, e.* ` +
             `from ${entity.table} as e ` +
             `inner join ${entity.table}_vc as vc on (vc._id = e._id and ` +
             `vc._rev = e._rev) ` +
-            `where (${filter.where}) limit 1`;
-        this.log(logger, statement);
-        const result = await this.pool.query(statement);
+            `where (${compiled.where}) limit 1`;
+        this.log(logger, statement, compiled.parameters);
+        const result = await this.pool.query(statement, compiled.parameters);
         if (result.rows.length === 0) {
             return new Row();
         }
@@ -293,6 +531,94 @@ export class PgBaseClient {
         return row;
     }
 
+    /* Lists all revisions of a record, oldest first, with the
+     * useraccountnum of the author and the revision it descends from.
+     */
+    async getHistory(logger: Logger, context: IContext, entity: Entity,
+                     id: string): Promise<Row[]> {
+        if (entity.immutable) {
+            throw new PgClientError(
+                `Immutable entity ${entity.name} has no history`, 400);
+        }
+        const statement =
+            `select vc._rev, vc.updated, vc.updatedby, ` +
+            `u.useraccountnum as author, vc.versiondepth, vc.ancestry, ` +
+            `vc.isleaf, vc.isdeleted, vc.isstub, vc.isconflict, ` +
+            `vc.iswinner from ${entity.table}_vc as vc ` +
+            `left join ${this.userEntity.v.table} as u ` +
+            `on u._id = vc.updatedby ` +
+            `where vc._id = \$1 order by vc.versiondepth, vc.seq`;
+        const parameters = [id];
+        this.log(logger, statement, parameters);
+        const result = await this.pool.query(statement, parameters);
+        return result.rows.map((data) => {
+            const row = new Row(data);
+            const ancestors: string[] = row.getString("ancestry").split(".");
+            row.add("parent", ancestors.length > 1 ?
+                `${row.get("versiondepth") - 1}-` +
+                    ancestors[ancestors.length - 2] :
+                null);
+            row.delete("ancestry");
+            return row;
+        });
+    }
+
+    // Lists the winning revisions of all records with open conflicts
+    async getConflicts(logger: Logger, context: IContext, entity: Entity,
+                       filter?: Filter): Promise<Row[]> {
+        if (entity.immutable) {
+            throw new PgClientError(
+                `Immutable entity ${entity.name} has no conflicts`, 400);
+        }
+        let statement =
+            `select ${PgBaseClient.VC_COL_SELECT}, e.* ` +
+            `from ${entity.table} as e ` +
+            `inner join ${entity.table}_vc as vc on (vc._id = e._id and ` +
+            `vc._rev = e._rev) ` +
+            `where vc.isconflict`;
+        let parameters: any[] = [];
+        if (filter && filter.notEmpty) {
+            const compiled = filter.compile(entity, [], "e");
+            statement += ` and (${compiled.where})`;
+            parameters = compiled.parameters;
+        }
+        statement += " order by e._id";
+        this.log(logger, statement, parameters);
+        const result = await this.pool.query(statement, parameters);
+        return result.rows.map((data) => this.convertDbRowToAppRow(
+            Row.dataToRow(data, entity), true));
+    }
+
+    /* Lists the conflicting leaf revisions of a record, the winner first and
+     * flagged with '_winner'.
+     */
+    async getConflictRevisions(logger: Logger, context: IContext,
+                               entity: Entity, id: string): Promise<Row[]> {
+        if (entity.immutable) {
+            throw new PgClientError(
+                `Immutable entity ${entity.name} has no conflicts`, 400);
+        }
+        const statement =
+            `select ${PgBaseClient.VC_COL_SELECT}, v.* ` +
+            `from ${entity.table}_v as v ` +
+            `inner join ${entity.table}_vc as vc on ` +
+            `(vc._id = v._id and vc._rev = v._rev) ` +
+            `where v._id = \$1 and vc.isleaf and vc.isconflict ` +
+            `order by vc.iswinner desc, vc.versiondepth desc, vc._rev desc`;
+        const parameters = [id];
+        this.log(logger, statement, parameters);
+        const result = await this.pool.query(statement, parameters);
+        return result.rows.map((data) => {
+            const row = Row.dataToRow(data, entity);
+            const winner = row.get("iswinner");
+            this.convertDbRowToAppRow(row, true);
+            if (winner) {
+                row.add("_winner", true);
+            }
+            return row;
+        });
+    }
+
     async getDBInfo(logger: Logger, context: IContext): Promise<Row> {
         const info = {
             uuid: "00000000000000000000000000000000",
@@ -449,6 +775,13 @@ export class PgBaseClient {
                     `${pgResult.rowCount}`);
             }
         }
+        /* Wakes up the change feeds that wait on this entity. The notification
+         * is only delivered once the surrounding transaction commits.
+         */
+        const statement = "select pg_notify($1, $2)";
+        const parameters = [PgConnection.CHANGES_CHANNEL, entity.name];
+        this.log(logger, statement, parameters);
+        await client.query(statement, parameters);
     }
 
     protected log(logger: Logger, statement: string, parameters?: any[]): void {
@@ -475,13 +808,23 @@ export class PgBaseClient {
     }
 }
 
+/* Sessions expire after 'sessionIdleTimeout' without activity, but never
+ * later than 'sessionLifetime' after they were created. Activity extends
+ * a session at most once every 'sessionTouchFrequency'. All are in
+ * milliseconds; without them sessions expire after one hour regardless of
+ * activity.
+ */
 type PgClientSourceSpec = ClassSpec & {
     leaderElector: string;
     pool: string;
+    sessionIdleTimeout?: number;
+    sessionLifetime?: number;
+    sessionTouchFrequency?: number;
 }
 
 export class PgClient extends PgBaseClient implements IService, IElectorService,
                                                       ISessionBackendService,
+                                                      ILoginAttemptService,
                                                       ITaskRunner {
     configuration: Cfg<IConfiguration>;
     leaderElector: Cfg<LeaderElector>;
@@ -490,9 +833,25 @@ export class PgClient extends PgBaseClient implements IService, IElectorService,
     private electionLogger: Logger;
     private deferredLogger: Logger;
     private mvccLogger: Logger;
+    readonly sessionIdleTimeout: number;
+    readonly sessionLifetime: number;
+    readonly sessionTouchFrequency: number;
 
     constructor(spec: PgClientSourceSpec) {
         super(spec.pool);
+        this.sessionIdleTimeout =
+            spec.sessionIdleTimeout || SessionContext.DEFAULT_TIMEOUT;
+        this.sessionLifetime =
+            spec.sessionLifetime || this.sessionIdleTimeout;
+        this.sessionTouchFrequency =
+            spec.sessionTouchFrequency || this.sessionIdleTimeout / 10;
+        if (this.sessionLifetime < this.sessionIdleTimeout ||
+            this.sessionTouchFrequency >= this.sessionIdleTimeout) {
+            throw new PgClientError(
+                `Invalid session timeouts, sessionLifetime cannot be below ` +
+                `sessionIdleTimeout and sessionTouchFrequency needs to be ` +
+                `below sessionIdleTimeout`, 400);
+        }
         this.configuration = new Cfg("configuration");
         this.leaderElector = new Cfg(spec.leaderElector);
         this._scheduler = new Scheduler(30000, this);
@@ -527,6 +886,10 @@ export class PgClient extends PgBaseClient implements IService, IElectorService,
         return true;
     }
 
+    get isLoginAttemptService(): boolean {
+        return true;
+    }
+
     start(): void {
         this._scheduler.start();
     }
@@ -581,6 +944,37 @@ export class PgClient extends PgBaseClient implements IService, IElectorService,
         return row;
     }
 
+    /* Resolves the subjects and memberships of 'persona' for the given
+     * user, returns an empty string when there are none.
+     */
+    private async resolveSubjects(userId: string,
+                                  persona: Persona): Promise<string> {
+        const subjectMap: Map<string, string> = new Map();
+        const memberMap: Map<string, string[]> = new Map();
+        for (const membership of persona.membershipCfgs) {
+            const membershipEntity =
+                this.configuration.v.getEntity(membership.entity);
+            const members =
+                await membershipEntity.getMembers(
+                    this, NOCONTEXT, userId, membership.through);
+            if (membership.through == "subject") {
+                if (members.length > 0) {
+                    subjectMap.set(membership.entity, members[0]);
+                }
+            } else {
+                /* Resolved once per session, for policy 'in'/'notIn' checks.
+                 * Keyed by entity like the subjects, so ${my.<entity>}
+                 * reads both.
+                 */
+                memberMap.set(membership.entity, members);
+            }
+        }
+        if (subjectMap.size > 0 || memberMap.size > 0) {
+            return serializeSubjectMap(subjectMap, memberMap);
+        }
+        return "";
+    }
+
     async createInMemorySession(logger: Logger, userId: string,
                                 expiryOverride?: Date,
                                 personaOverride?: Persona): Promise<State> {
@@ -606,33 +1000,27 @@ export class PgClient extends PgBaseClient implements IService, IElectorService,
             );
         }
         const expiry = expiryOverride ||
-            new Date(Date.now() + SessionContext.DEFAULT_TIMEOUT);
+            new Date(Date.now() + this.sessionIdleTimeout);
+        const maxExpiry = expiryOverride ||
+            new Date(Date.now() + this.sessionLifetime);
         validations.push(
             this.sessionEntity.v.setValue(
                 session,
                 "expiry", expiry,
                 NOCONTEXT)
         );
-        const subjectMap: Map<string, string> = new Map();
-        const memberships =
-            persona.membershipCfgs.filter((cfg) => cfg.through == "subject");
-        if (memberships.length > 0) {
-            for (const membership of memberships) {
-                const membershipEntity =
-                    this.configuration.v.getEntity(membership.entity);
-                const members =
-                    await membershipEntity.getMembers(
-                        this, NOCONTEXT, userId, "subject");
-                if (members.length > 0) {
-                    subjectMap.set(membership.entity, members[0]);
-                }
-            }
-        }
-        if (subjectMap.size > 0) {
+        validations.push(
+            this.sessionEntity.v.setValue(
+                session,
+                "maxexpiry", maxExpiry,
+                NOCONTEXT)
+        );
+        const subjects = await this.resolveSubjects(userId, persona);
+        if (subjects) {
             validations.push(
                 this.sessionEntity.v.setValue(
                 session,
-                "subjectMap", serializeSubjectMap(subjectMap),
+                "subjects", subjects,
                 NOCONTEXT)
             );
         }
@@ -649,11 +1037,106 @@ export class PgClient extends PgBaseClient implements IService, IElectorService,
         return sessionRow;
     }
 
+    /* A user can switch to their primary persona or to any of the
+     * comma-separated names in 'otherpersonas'.
+     */
+    async switchPersona(logger: Logger, id: string,
+                        persona: Persona): Promise<Row> {
+        const session = await this.getSession(logger, id);
+        const userId = session.getString("useraccountnum_id");
+        const useraccount = await this.getOne(
+            logger, NOCONTEXT, this.userEntity.v, userId);
+        if (!useraccount || useraccount.empty) {
+            throw new PgClientError(`useraccount not found: ${userId}`, 404);
+        }
+        const allowed = [useraccount.getString("persona")].concat(
+            useraccount.getString("otherpersonas").split(",")
+                .map((name) => name.trim()));
+        if (!allowed.includes(persona.name)) {
+            throw new PgClientError(
+                `Persona ${persona.name} is not available to ` +
+                `${useraccount.getString("useraccountnum")}`, 403);
+        }
+        const subjects = await this.resolveSubjects(userId, persona);
+        const statement =
+            `update ${this.sessionEntity.v.table} set persona = \$1, ` +
+            `subjects = \$2 where _id = \$3`;
+        const parameters = [persona.name, subjects || null, id];
+        this.log(logger, statement, parameters);
+        await this.pool.query(statement, parameters);
+        return this.getSession(logger, id);
+    }
+
     async deleteSession(logger: Logger, id: string): Promise<void> {
         await this.deleteImmutable(
             logger, NOCONTEXT, this.sessionEntity.v, id);
     }
 
+    // Returns the ids of the deleted sessions, to evict them from caches
+    async deleteUserSessions(logger: Logger,
+                             userId: string): Promise<string[]> {
+        const statement =
+            `delete from ${this.sessionEntity.v.table} ` +
+            `where useraccountnum_id = \$1 returning _id`;
+        const parameters = [userId];
+        this.log(logger, statement, parameters);
+        const result = await this.pool.query(statement, parameters);
+        return result.rows.map((row) => row._id);
+    }
+
+    extensionDue(context: SessionContext): boolean {
+        if (!context.maxExpiry || context.expiry >= context.maxExpiry) {
+            return false;
+        }
+        const lastExtended =
+            context.expiry.getTime() - this.sessionIdleTimeout;
+        return Date.now() - lastExtended >= this.sessionTouchFrequency;
+    }
+
+    /* Extends the expiry to a full idle timeout from now, capped by the
+     * absolute lifetime. An expiry is never shortened.
+     */
+    async extendSession(logger: Logger, id: string): Promise<Row> {
+        const statement =
+            `update ${this.sessionEntity.v.table} set expiry = ` +
+            `greatest(expiry, least(` +
+            `now() + \$1::float8 * interval '1 millisecond', ` +
+            `coalesce(maxexpiry, expiry))) ` +
+            `where _id = \$2 and expiry > now() returning *`;
+        const parameters = [this.sessionIdleTimeout, id];
+        this.log(logger, statement, parameters);
+        const result = await this.pool.query(statement, parameters);
+        if (result.rows.length === 0) {
+            throw new PgClientError("Session expired", 401);
+        }
+        return new Row(result.rows[0]);
+    }
+
+    // The subjects are left out, they are only needed to build a context
+    async getUserSessions(logger: Logger, userId: string): Promise<Row[]> {
+        const statement =
+            `select _id, updated, persona, expiry, maxexpiry ` +
+            `from ${this.sessionEntity.v.table} ` +
+            `where useraccountnum_id = \$1 and expiry > now() ` +
+            `order by updated desc`;
+        const parameters = [userId];
+        this.log(logger, statement, parameters);
+        const result = await this.pool.query(statement, parameters);
+        return result.rows.map((row) => new Row(row));
+    }
+
+    // Returns the subset of 'ids' that still exist and have not expired
+    async getExistingSessions(logger: Logger,
+                              ids: string[]): Promise<string[]> {
+        const statement =
+            `select _id from ${this.sessionEntity.v.table} ` +
+            `where _id = any(\$1) and expiry > now()`;
+        const parameters = [ids];
+        this.log(logger, statement, parameters);
+        const result = await this.pool.query(statement, parameters);
+        return result.rows.map((row) => row._id);
+    }
+
     async deleteSessionsUpTo(logger: Logger, expiry: Date): Promise<void> {
         const statement =
             `delete from ${this.sessionEntity.v.table} where expiry <= \$1`;
@@ -662,6 +1145,60 @@ export class PgClient extends PgBaseClient implements IService, IElectorService,
         await this.pool.query(statement, parameters);
     }
 
+    async getLoginBlock(logger: Logger, entity: Entity,
+                        ids: string[]): Promise<Date | null> {
+        const statement =
+            `select max(blockeduntil) "blocked" from ${entity.table} ` +
+            `where _id = any(\$1) and blockeduntil > now()`;
+        const parameters = [ids];
+        this.log(logger, statement, parameters);
+        const result = await this.pool.query(statement, parameters);
+        if (result.rows.length === 0) {
+            return null;
+        }
+        return result.rows[0].blocked;
+    }
+
+    /* The delay doubles with every failure, unless the previous failure
+     * is older than 'resetAfter', all in milliseconds.
+     */
+    async registerLoginFailure(logger: Logger, entity: Entity, id: string,
+                               key: string, baseDelay: number,
+                               maxDelay: number,
+                               resetAfter: number): Promise<number> {
+        const table = entity.table;
+        const stale = `${table}.updated < ` +
+            `now() - \$6::float8 * interval '1 millisecond'`;
+        const statement =
+            `insert into ${table} ` +
+            `(_id, updated, updatedby, attemptkey, failures, blockeduntil) ` +
+            `values (\$1, now(), \$2, \$3, 1, ` +
+            `now() + \$4::float8 * interval '1 millisecond') ` +
+            `on conflict (_id) do update set ` +
+            `failures = case when ${stale} then 1 ` +
+            `else ${table}.failures + 1 end, ` +
+            `blockeduntil = now() + least(\$5::float8, ` +
+            `\$4::float8 * power(2, least(30, case when ${stale} ` +
+            `then 0 else ${table}.failures end))) * ` +
+            `interval '1 millisecond', ` +
+            `updated = now() ` +
+            `returning failures`;
+        const parameters =
+            [id, Nobody.ID, key, baseDelay, maxDelay, resetAfter];
+        this.log(logger, statement, parameters);
+        const result = await this.pool.query(statement, parameters);
+        return result.rows[0].failures;
+    }
+
+    async deleteLoginAttemptsUpTo(logger: Logger, entity: Entity,
+                                  updated: Date): Promise<void> {
+        const statement =
+            `delete from ${entity.table} where updated <= \$1`;
+        const parameters = [updated];
+        this.log(logger, statement, parameters);
+        await this.pool.query(statement, parameters);
+    }
+
     async castBallot(logger: Logger, serverId: string, rowId: number,
                      interval: string): Promise<Row> {
         const statement =
@@ -726,79 +1263,101 @@ export class PgClient extends PgBaseClient implements IService, IElectorService,
         const fromClause =
             query.hasFromClause ? query.fromClause : `from ${entity.table}`;
         let statement = `select ${fields} ${fromClause}`;
+        const parameters: any[] = [];
         if (query.filter && query.filter.notEmpty) {
-            const where = query.filter.where;
-            statement += ` where ${where}`;
+            /* Joined queries qualify the filter columns with the main table,
+             * since the joined tables share column names like _id.
+             */
+            const compiled = query.filter.compile(
+                entity, parameters,
+                query.hasFromClause ? entity.table : undefined);
+            statement += ` where ${compiled.where}`;
         }
-        if (query.orderBy.length > 0) {
-            const orders: string[] = [];
-            query.orderBy.forEach((clause) => {
-                orders.push(`${clause.field} ${clause.order}`);
-            });
+        const orders: string[] = [];
+        query.orderBy.forEach((clause) => {
+            orders.push(`${clause.field} ${clause.order}`);
+        });
+        if (!query.grouped) {
+            /* Pages can only be stitched together with a stable order, so
+             * _id breaks the ties left by the requested order.
+             */
+            orders.push(`${entity.table}._id`);
+        }
+        if (orders.length > 0) {
             statement += ` order by ${orders.join()}`;
         }
-        this.log(logger, statement);
-        const client = await this.pool.connect();
-        try {
-            const cursor = client.query(new Cursor(statement, []));
-            const rows = await cursor.read(this.conn.v.pageSize);
-            if (rows.length == 0) {
-                this.log(logger, `No rows returned for query: ${statement}`);
-                return new EmptyResultSet();
-            }
-            const resultSet = new MemResultSet(rows);
-            await cursor.close();
-            return resultSet;
-        } finally {
-            await client.release();
+        /* Every page is a separate limit/offset query, so no connection is
+         * held while the caller works through the pages.
+         */
+        const fetchPage = async (skip: number,
+                                 limit: number): Promise<Object[]> => {
+            const pageStatement =
+                `${statement} limit \$${parameters.length + 1} ` +
+                `offset \$${parameters.length + 2}`;
+            const pageParameters = parameters.concat(limit, skip);
+            this.log(logger, pageStatement, pageParameters);
+            const result = await this.pool.query(pageStatement, pageParameters);
+            return result.rows;
+        };
+        const pageSize = this.conn.v.pageSize;
+        const skip = query.skip || 0;
+        const firstPage = await fetchPage(
+            skip, query.limit !== undefined ?
+                Math.min(pageSize, query.limit) : pageSize);
+        if (firstPage.length == 0) {
+            this.log(logger, `No rows returned for query: ${statement}`);
+            return new EmptyResultSet();
         }
+        return new PagedResultSet(
+            firstPage, pageSize, fetchPage, skip, query.limit);
     }
 
-    async put(logger: Logger, context: IContext, entity: Entity, id: string,
-              row: Row): Promise<Row> {
-        if (entity.immutable) {
-            throw new PgClientError(
-                `Entity '${entity.name}' is immutable`, 400);
+    // Rejects a row whose key is already used by another record
+    private async checkDuplicateKey(logger: Logger, client: pg.Client,
+                                    entity: Entity, row: Row,
+                                    id?: string): Promise<void> {
+        if (!entity.keyFields.size) {
+            return;
         }
-
-        // Check dups by key
-        if (entity.keyFields.size) {
-            let param = 1;
-            const parameters = [];
-            const keyWhere = [];
-            for (const key of entity.keyFields.keys()) {
-                keyWhere.push(`${key} = \$${param++}`);
-                parameters.push(row.get(key));
-            }
-            parameters.push(row.get("_id"));
-            const statement = `select _id from ${entity.table} ` +
-                `where ${keyWhere.join(" and ")} and _id != \$${param} limit 1`;
-            this.log(logger, statement, parameters);
-            const result = await this.pool.query(statement, parameters);
-            if (result.rows.length) {
-                throw new PgClientError(
-                    `Duplicate '${entity.name}': ${parameters.join(", ")}`,
-                    409);
-            }
+        let param = 1;
+        const parameters = [];
+        const keyWhere = [];
+        for (const key of entity.keyFields.keys()) {
+            keyWhere.push(`${key} = \$${param++}`);
+            parameters.push(row.get(key));
+        }
+        if (id !== undefined) {
+            keyWhere.push(`_id != \$${param}`);
+            parameters.push(id);
+        }
+        const statement = `select _id from ${entity.table} ` +
+            `where ${keyWhere.join(" and ")} limit 1`;
+        this.log(logger, statement, parameters);
+        const result = await client.query(statement, parameters);
+        if (result.rows.length) {
+            throw new PgClientError(
+                `Duplicate '${entity.name}': ${parameters.join(", ")}`, 409);
         }
+    }
 
-        const versions = await this.pullVcTable(logger, entity, id);
-        const mvccResult = this.mvccController.putMvcc(
-            row, versions, false, context);
+    // Runs 'work' on a single connection, inside one transaction
+    private async transaction<T>(logger: Logger,
+                                 work: (client: pg.Client) => Promise<T>)
+                                     : Promise<T> {
         const client = await this.pool.connect();
         try {
             let statement = "BEGIN";
             this.log(logger, statement);
             await client.query(statement);
 
-            await this.applyMvccResults(logger, client, entity, mvccResult);
+            const result = await work(client);
 
             statement = "COMMIT";
             this.log(logger, statement);
             await client.query(statement);
 
-            return Row.must(mvccResult.leafTable.leafActionPut?.payload);
-        } catch (err: any) {
+            return result;
+        } catch (err) {
             const statement = "ROLLBACK";
             this.log(logger, statement);
             await client.query(statement);
@@ -808,28 +1367,25 @@ export class PgClient extends PgBaseClient implements IService, IElectorService,
         }
     }
 
-    async post(logger: Logger, context: IContext, entity: Entity,
-               row: Row): Promise<Row> {
-
-        // Check dups by key
-        if (entity.keyFields.size) {
-            let param = 1;
-            const parameters = [];
-            const keyWhere = [];
-            for (const key of entity.keyFields.keys()) {
-                keyWhere.push(`${key} = \$${param++}`);
-                parameters.push(row.get(key));
-            }
-            const statement = `select _id from ${entity.table} ` +
-                `where ${keyWhere.join(" and ")} limit 1`;
-            this.log(logger, statement, parameters);
-            const result = await this.pool.query(statement, parameters);
-            if (result.rows.length) {
-                throw new PgClientError(
-                    `Duplicate '${entity.name}': ${parameters.join(", ")}`,
-                    409);
-            }
+    private async putRow(logger: Logger, client: pg.Client, context: IContext,
+                         entity: Entity, id: string, row: Row): Promise<Row> {
+        if (entity.immutable) {
+            throw new PgClientError(
+                `Entity '${entity.name}' is immutable`, 400);
         }
+        await this.checkDuplicateKey(
+            logger, client, entity, row, row.get("_id"));
+        const versions = await this.pullVcTable(logger, entity, id, client);
+        const mvccResult = this.mvccController.putMvcc(
+            row, versions, false, context);
+        await this.applyMvccResults(logger, client, entity, mvccResult);
+        return Row.must(mvccResult.leafTable.leafActionPut?.payload);
+    }
+
+    private async postRow(logger: Logger, client: pg.Client, context: IContext,
+                          entity: Entity, row: Row,
+                          confidential?: boolean): Promise<Row> {
+        await this.checkDuplicateKey(logger, client, entity, row);
         if (entity.immutable) {
             this.mvccController.convertToPayload(row);
             row.add("_id", Entity.generateId());
@@ -841,34 +1397,48 @@ export class PgClient extends PgBaseClient implements IService, IElectorService,
                 `${row.columnNumbers.join()}` +
                 `)`;
             const parameters = row.values();
-            this.log(logger, statement, parameters);
-            await this.pool.query(statement, parameters);
+            this.log(logger, statement, confidential ? [] : parameters);
+            await client.query(statement, parameters);
             return row;
-        } else {
-            let statement: string;
-            const mvccResult = this.mvccController.postMvcc(row, context);
-            const client = await this.pool.connect();
-            try {
-                statement = "BEGIN";
-                this.log(logger, statement);
-                await client.query(statement);
-
-                await this.applyMvccResults(logger, client, entity, mvccResult);
-
-                statement = "COMMIT";
-                this.log(logger, statement);
-                await client.query(statement);
-
-                return Row.must(mvccResult.leafTable.leafActionPost?.payload);
-            } catch (err: any) {
-                statement = "ROLLBACK";
-                this.log(logger, statement);
-                await client.query(statement);
-                throw err;
-            } finally {
-                client.release();
+        }
+        const mvccResult = this.mvccController.postMvcc(row, context);
+        await this.applyMvccResults(logger, client, entity, mvccResult);
+        return Row.must(mvccResult.leafTable.leafActionPost?.payload);
+    }
+
+    private async deleteRow(logger: Logger, client: pg.Client,
+                            context: IContext, entity: Entity, id: string,
+                            rev: string, mustExist?: boolean): Promise<void> {
+        if (entity.immutable) {
+            const statement = `delete from ${entity.table} where _id = \$1`;
+            const parameters = [id];
+            this.log(logger, statement, parameters);
+            const result = await client.query(statement, parameters);
+            /* The row lock makes a concurrent delete wait for this one, and
+             * then find nothing to delete.
+             */
+            if (mustExist && result.rowCount != 1) {
+                throw new PgClientError(
+                    `${entity.name} ${id} does not exist`, 404);
             }
+            return;
         }
+        const versions = await this.pullVcTable(logger, entity, id, client);
+        const mvccResult = this.mvccController.deleteMvcc(
+            id, rev, versions, context);
+        await this.applyMvccResults(logger, client, entity, mvccResult);
+    }
+
+    async put(logger: Logger, context: IContext, entity: Entity, id: string,
+              row: Row): Promise<Row> {
+        return this.transaction(logger, (client) => this.putRow(
+            logger, client, context, entity, id, row));
+    }
+
+    async post(logger: Logger, context: IContext, entity: Entity,
+               row: Row): Promise<Row> {
+        return this.transaction(logger, (client) => this.postRow(
+            logger, client, context, entity, row));
     }
 
     async deleteImmutable(logger: Logger, context: IContext, entity: Entity,
@@ -886,33 +1456,108 @@ export class PgClient extends PgBaseClient implements IService, IElectorService,
 
     async delete(logger: Logger, context: IContext, entity: Entity, id: string,
                  rev: string): Promise<void> {
+        await this.transaction(logger, (client) => this.deleteRow(
+            logger, client, context, entity, id, rev));
+    }
 
-        if (entity.immutable) {
-            await this.deleteImmutable(logger, context, entity, id);
-        }
-        const versions = await this.pullVcTable(logger, entity, id);
-        const mvccResult = this.mvccController.deleteMvcc(
-            id, rev, versions, context);
-        const client = await this.pool.connect();
-        try {
-            let statement = "BEGIN";
-            this.log(logger, statement);
-            await client.query(statement);
-
-            await this.applyMvccResults(logger, client, entity, mvccResult);
-
-            statement = "COMMIT";
-            this.log(logger, statement);
-            await client.query(statement);
+    /* Applies all operations in one transaction, in order: either all of
+     * them are stored, or none are.
+     */
+    async bulk(logger: Logger, context: IContext,
+               operations: BulkOperation[]): Promise<BulkResult[]> {
+        return this.transaction(logger, async (client) => {
+            const results: BulkResult[] = [];
+            for (const [index, operation] of operations.entries()) {
+                const entity = operation.entity;
+                const result: BulkResult = {
+                    action: operation.action,
+                    entity: entity.name,
+                    id: operation.id || ""
+                };
+                try {
+                    if (operation.action == "post") {
+                        result.row = await this.postRow(
+                            logger, client, context, entity,
+                            Row.must(operation.row), operation.confidential);
+                    } else if (operation.action == "put") {
+                        result.row = await this.putRow(
+                            logger, client, context, entity, result.id,
+                            Row.must(operation.row));
+                    } else {
+                        await this.deleteRow(
+                            logger, client, context, entity, result.id,
+                            operation.rev || "", operation.mustExist);
+                    }
+                } catch (error) {
+                    const message = error instanceof Error ?
+                        error.message : String(error);
+                    throw new PgClientError(
+                        `Bulk operation ${index} (${operation.action} ` +
+                        `${entity.name}) failed: ${message}`,
+                        error instanceof _IError ? error.code : 500,
+                        { cause: error });
+                }
+                if (result.row) {
+                    result.id = result.row.getString("_id");
+                }
+                results.push(result);
+            }
+            return results;
+        });
+    }
 
-        } catch (err: any) {
-            const statement = "ROLLBACK";
-            this.log(logger, statement);
-            await client.query(statement);
-            throw err;
-        } finally {
-            client.release();
+    /* Resolves the open conflicts of a record in favour of leaf 'rev': all
+     * other conflicting leaves are tombstoned and, when passed, 'row' is
+     * written as a new revision on top of 'rev'.
+     */
+    async resolveConflict(logger: Logger, context: IContext, entity: Entity,
+                          id: string, rev: string, row?: Row): Promise<Row> {
+        if (entity.immutable) {
+            throw new PgClientError(
+                `Immutable entity ${entity.name} has no conflicts`, 400);
         }
+        const output = await this.transaction(logger, async (client) => {
+            if (row) {
+                await this.checkDuplicateKey(logger, client, entity, row, id);
+            }
+            // Serializes concurrent resolutions of the same record
+            const statement =
+                `select _id from ${entity.table} where _id = \$1 for update`;
+            this.log(logger, statement, [id]);
+            await client.query(statement, [id]);
+
+            let versions = await this.pullVcTable(logger, entity, id, client);
+            const leafs = versions.filter(
+                (rec) => rec.get("isleaf") && rec.get("isconflict"));
+            if (!leafs.length) {
+                throw new PgClientError(
+                    `No open conflicts: ${entity.name} : ${id}`, 409);
+            }
+            if (!leafs.some((rec) => rec.get("_rev") == rev)) {
+                throw new PgClientError(
+                    `Not a conflicting revision: ${entity.name} : ${id} : ` +
+                    `${rev}`, 404);
+            }
+            for (const leaf of leafs) {
+                if (leaf.get("_rev") == rev) {
+                    continue;
+                }
+                await this.applyMvccResults(
+                    logger, client, entity, this.mvccController.deleteMvcc(
+                        id, leaf.get("_rev"), versions, context));
+                versions = await this.pullVcTable(logger, entity, id, client);
+            }
+            if (row) {
+                row.updateOrAdd("_id", id);
+                row.updateOrAdd("_rev", rev);
+                const mvccResult = this.mvccController.putMvcc(
+                    row, versions, false, context);
+                await this.applyMvccResults(
+                    logger, client, entity, mvccResult);
+                return mvccResult.leafTable.leafActionPut?.payload;
+            }
+        });
+        return output || await this.getOne(logger, context, entity, id);
     }
 
     async getDeferredToken(logger: Logger, context: IContext,
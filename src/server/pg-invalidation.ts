@@ -0,0 +1,211 @@
+/*
+    RZO - A Business Application Framework
+
+    Copyright (C) 2024 Frank Vanderham
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU General Public License as published by
+    the Free Software Foundation, either version 3 of the License, or
+    (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU General Public License for more details.
+
+    You should have received a copy of the GNU General Public License
+    along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import {
+    ClassSpec, TypeCfg, IConfiguration, DaemonWorker, _IError, Cfg, Logger
+} from "../base/core.js";
+
+import { PgConnection } from "./pg-client.js";
+
+import {
+    IInvalidationBus, InvalidationListener, InvalidationResetListener
+} from "./cache.js";
+
+class PgInvalidationError extends _IError {
+    constructor(message: string, code?: number, options?: ErrorOptions) {
+        super(code || 500, message, options);
+    }
+}
+
+type PgInvalidationBusSpec = ClassSpec & {
+    pool: string;
+}
+
+type InvalidationMessage = {
+    topic: string;
+    key: string;
+}
+
+/* Broadcasts invalidations to every server through a single NOTIFY
+ * channel. Every server receives its own invalidations as well, so
+ * listeners need to be idempotent. The PgConnection listens again after
+ * losing its connection, the notifications sent in between are lost, so
+ * all reset listeners are called then.
+ */
+export class PgInvalidationBus extends DaemonWorker
+                               implements IInvalidationBus {
+    readonly name: string;
+    conn: Cfg<PgConnection>;
+    private listeners: Map<string, InvalidationListener[]>;
+    private resetListeners: Map<InvalidationListener,
+                                InvalidationResetListener>;
+    private _listening: Promise<void> | null;
+    private readonly onNotification: (payload: string) => void;
+    private readonly onReconnect: () => void;
+    logger: Logger;
+
+    static CHANNEL = "rzo_invalidations";
+
+    constructor(config: TypeCfg<PgInvalidationBusSpec>,
+                blueprints: Map<string, any>) {
+        super(config, blueprints);
+        this.name = config.metadata.name;
+        this.conn = new Cfg(config.spec.pool);
+        this.listeners = new Map();
+        this.resetListeners = new Map();
+        this._listening = null;
+        this.onNotification = (payload: string) => {
+            this.dispatch(payload);
+        };
+        this.onReconnect = () => {
+            this.reset();
+        };
+        this.logger = new Logger(`invalidation/${this.name}`);
+    }
+
+    configure(configuration: IConfiguration): void {
+        this.logger.configure(configuration);
+        const conn: unknown = configuration.workers.get(this.conn.name);
+        if (conn instanceof PgConnection) {
+            this.conn.v = conn as PgConnection;
+        } else {
+            throw new PgInvalidationError(
+                `Worker ${this.conn.name} is not a PgConnection`);
+        }
+        configuration.registerAsyncTask(this);
+    }
+
+    get isInvalidationBus(): boolean {
+        return true;
+    }
+
+    private dispatch(payload: string): void {
+        let message: InvalidationMessage;
+        try {
+            message = JSON.parse(payload);
+        } catch (error) {
+            this.logger.error(`Invalid invalidation message: ${payload}`);
+            return;
+        }
+        const listeners = this.listeners.get(message.topic);
+        if (!listeners) {
+            return;
+        }
+        this.logger.debug(
+            `Invalidating '${message.key}' on topic ${message.topic}`);
+        for (const listener of Array.from(listeners)) {
+            try {
+                listener(message.key);
+            } catch (error) {
+                this.logger.error(
+                    `Invalidation listener failed on topic ${message.topic}`);
+                if (error instanceof Error) {
+                    this.logger.exc(error);
+                }
+            }
+        }
+    }
+
+    private reset(): void {
+        this.logger.log(
+            `Invalidation bus ${this.name} reconnected, resetting listeners`);
+        for (const resetListener of Array.from(this.resetListeners.values())) {
+            try {
+                resetListener();
+            } catch (error) {
+                this.logger.error(
+                    `Invalidation reset listener failed: ${error}`);
+            }
+        }
+    }
+
+    /* A failed listen() is withdrawn, so the next subscribe() listens again
+     * without registering the channel twice.
+     */
+    private listening(): Promise<void> {
+        if (!this._listening) {
+            this._listening = this.conn.v.listen(
+                PgInvalidationBus.CHANNEL, this.onNotification,
+                this.onReconnect)
+            .catch(async (error) => {
+                this._listening = null;
+                await this.conn.v.unlisten(
+                    PgInvalidationBus.CHANNEL, this.onNotification)
+                .catch(() => {});
+                throw error;
+            });
+        }
+        return this._listening;
+    }
+
+    async subscribe(topic: string, listener: InvalidationListener,
+                    onReset?: InvalidationResetListener): Promise<void> {
+        const listeners = this.listeners.get(topic);
+        if (listeners) {
+            listeners.push(listener);
+        } else {
+            this.listeners.set(topic, [listener]);
+        }
+        if (onReset) {
+            this.resetListeners.set(listener, onReset);
+        }
+        await this.listening();
+    }
+
+    async unsubscribe(topic: string,
+                      listener: InvalidationListener): Promise<void> {
+        const listeners = this.listeners.get(topic);
+        if (!listeners) {
+            return;
+        }
+        this.resetListeners.delete(listener);
+        const remaining = listeners.filter((current) => current != listener);
+        if (remaining.length > 0) {
+            this.listeners.set(topic, remaining);
+        } else {
+            this.listeners.delete(topic);
+        }
+    }
+
+    async publish(topic: string, key: string): Promise<void> {
+        const message: InvalidationMessage = { topic: topic, key: key };
+        const statement = "select pg_notify($1, $2)";
+        const parameters =
+            [PgInvalidationBus.CHANNEL, JSON.stringify(message)];
+        this.logger.debug(statement);
+        this.logger.debugAny(parameters);
+        await this.conn.v.pool.query(statement, parameters);
+    }
+
+    async start(): Promise<any> {
+        this.logger.log(`Invalidation bus ${this.name} started`);
+    }
+
+    async stop(): Promise<any> {
+        if (this._listening) {
+            this._listening = null;
+            await this.conn.v.unlisten(
+                PgInvalidationBus.CHANNEL, this.onNotification)
+            .catch((error) => {
+                this.logger.exc(error);
+            });
+        }
+        this.logger.log(`Invalidation bus ${this.name} stopped`);
+    }
+}
@@ -0,0 +1,176 @@
+/*
+    RZO - A Business Application Framework
+
+    Copyright (C) 2024 Frank Vanderham
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU General Public License as published by
+    the Free Software Foundation, either version 3 of the License, or
+    (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU General Public License for more details.
+
+    You should have received a copy of the GNU General Public License
+    along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import {
+    Entity, IConfiguration, TypeCfg, ClassSpec, _IError, Logger, Cfg, Nobody,
+    Row, BulkOperation
+} from "../base/core.js";
+
+import { PgBaseClient } from "./pg-client.js";
+
+import {
+    INotificationService, NotificationSource, Notification, OutboxEntry
+} from "./notification.js";
+
+class PgNotificationError extends _IError {
+    constructor(message: string, code?: number, options?: ErrorOptions) {
+        super(code || 500, message, options);
+    }
+}
+
+type PgNotificationSourceSpec = ClassSpec & {
+    pool: string;
+    entity: string;
+}
+
+export class PgNotification extends PgBaseClient
+                            implements INotificationService {
+    outboxEntity: Cfg<Entity>;
+
+    static PENDING = "PENDING";
+    static SENT = "SENT";
+    static FAILED = "FAILED";
+
+    constructor(spec: PgNotificationSourceSpec) {
+        super(spec.pool);
+        this.outboxEntity = new Cfg(spec.entity);
+    }
+
+    configure(configuration: IConfiguration) {
+        super.configure(configuration);
+        this.outboxEntity.v = configuration.getEntity(this.outboxEntity.name);
+        if (!this.outboxEntity.v.immutable) {
+            throw new PgNotificationError(
+                `Outbox entity ${this.outboxEntity.name} must be immutable`);
+        }
+    }
+
+    get isNotificationService(): boolean {
+        return true;
+    }
+
+    private get table(): string {
+        return this.outboxEntity.v.table;
+    }
+
+    async enqueue(logger: Logger, notification: Notification): Promise<void> {
+        const statement =
+            `insert into ${this.table} (_id, updated, updatedby, channel, ` +
+            `recipient, subject, body, status, attempts, nextattempt) ` +
+            `values (\$1, now(), \$2, \$3, \$4, \$5, \$6, \$7, 0, now())`;
+        const parameters = [
+            Entity.generateId(), Nobody.ID, notification.channel,
+            notification.recipient, notification.subject, notification.body,
+            PgNotification.PENDING
+        ];
+        // The body can hold a login code, so it is not logged
+        this.log(logger, statement, parameters.slice(0, 5));
+        await this.pool.query(statement, parameters);
+    }
+
+    // Confidential, the body can hold a login code
+    outboxOperation(notification: Notification): BulkOperation {
+        return {
+            action: "post",
+            entity: this.outboxEntity.v,
+            confidential: true,
+            row: new Row({
+                channel: notification.channel,
+                recipient: notification.recipient,
+                subject: notification.subject,
+                body: notification.body,
+                status: PgNotification.PENDING,
+                attempts: 0,
+                nextattempt: new Date()
+            })
+        };
+    }
+
+    async claim(logger: Logger, batchSize: number,
+                lease: number): Promise<OutboxEntry[]> {
+        const statement =
+            `update ${this.table} set attempts = attempts + 1, ` +
+            `nextattempt = now() + \$3::float8 * interval '1 millisecond', ` +
+            `updated = now() ` +
+            `where _id in (select _id from ${this.table} ` +
+            `where status = \$1 and nextattempt <= now() ` +
+            `order by nextattempt limit \$2 for update skip locked) ` +
+            `returning _id, channel, recipient, subject, body, attempts`;
+        const parameters = [PgNotification.PENDING, batchSize, lease];
+        this.log(logger, statement, parameters);
+        const result = await this.pool.query(statement, parameters);
+        return result.rows.map((row) => {
+            return {
+                id: row._id,
+                channel: row.channel,
+                recipient: row.recipient,
+                subject: row.subject,
+                body: row.body,
+                attempts: row.attempts
+            };
+        });
+    }
+
+    // Delivered bodies are cleared, they can hold login or reset codes
+    async markSent(logger: Logger, id: string): Promise<void> {
+        const statement =
+            `update ${this.table} set status = \$1, sent = now(), ` +
+            `body = '', lasterror = null, updated = now() where _id = \$2`;
+        const parameters = [PgNotification.SENT, id];
+        this.log(logger, statement, parameters);
+        await this.pool.query(statement, parameters);
+    }
+
+    async markFailed(logger: Logger, id: string, error: string,
+                     retryAt: Date | null): Promise<void> {
+        let statement: string;
+        let parameters: any[];
+        if (retryAt) {
+            statement =
+                `update ${this.table} set nextattempt = \$1, ` +
+                `lasterror = \$2, updated = now() where _id = \$3`;
+            parameters = [retryAt, error, id];
+        } else {
+            statement =
+                `update ${this.table} set status = \$1, body = '', ` +
+                `lasterror = \$2, updated = now() where _id = \$3`;
+            parameters = [PgNotification.FAILED, error, id];
+        }
+        this.log(logger, statement, parameters);
+        await this.pool.query(statement, parameters);
+    }
+}
+
+export class PgNotificationSource extends NotificationSource {
+    _service: PgNotification;
+
+    constructor(config: TypeCfg<PgNotificationSourceSpec>,
+                blueprints: Map<string, any>) {
+        super(config, blueprints);
+        this._service = new PgNotification(config.spec);
+    }
+
+    configure(configuration: IConfiguration) {
+        this._service.configure(configuration);
+    }
+
+    get service(): INotificationService {
+        return this._service;
+    }
+}
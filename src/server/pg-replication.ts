@@ -26,8 +26,10 @@ import {
     _IError, Logger, JsonObject, ReplicationFilter
 } from "../base/core.js";
 
+import { NOCONTEXT } from "../base/configuration.js";
+
 import { MvccController, MvccResult } from "./mvcc.js";
-import { PgBaseClient } from "./pg-client.js";
+import { PgBaseClient, PgConnection } from "./pg-client.js";
 
 import {
     STATE_TABLE, ReplicationResponse, ChangesFeedQuery,
@@ -124,6 +126,9 @@ export class PgReplication extends PgBaseClient implements IReplicationService {
         return result;
     }
 
+    /* Also pulls the batches for the 'longpoll' and 'continuous' feeds, so
+     * the 'feed' parameter is not checked here.
+     */
     async getChangesNormal(logger: Logger, entity: Entity,
                            query: ChangesFeedQuery): Promise<NormalChangeFeed> {
         if (query.style != "all_docs") {
@@ -131,10 +136,6 @@ export class PgReplication extends PgBaseClient implements IReplicationService {
                 `Change feed query style '${query.style}' is not implemented`,
                 400);
         }
-        if (query.feed != "normal") {
-            throw new PgReplicationError(
-                `Unexpected 'feed' parameter: '${query.feed}'`, 400);
-        }
         if (query.since == "now") {
             throw new PgReplicationError(
                 "Cannot perform 'normal' change feed when 'since' is 'now'",
@@ -284,6 +285,43 @@ export class PgReplication extends PgBaseClient implements IReplicationService {
         }
     }
 
+    async waitForChanges(logger: Logger, entity: Entity, since: string,
+                         timeout: number): Promise<boolean> {
+        const sinceSeq = this.mvccController.toBigInt(since);
+        let wakeUp: (changed: boolean) => void = () => {};
+        const changed = new Promise<boolean>((resolve) => {
+            wakeUp = resolve;
+        });
+        const listener = (payload: string) => {
+            if (payload == entity.name) {
+                wakeUp(true);
+            }
+        };
+        const timer = setTimeout(() => wakeUp(false), timeout);
+        try {
+            // Changes may have been missed while the listener reconnected
+            await this.conn.v.listen(
+                PgConnection.CHANGES_CHANNEL, listener, () => wakeUp(true));
+            /* Changes committed before we started listening would never be
+             * notified, so check the sequence once we're listening.
+             */
+            const current = this.mvccController.toBigInt(
+                await this.getSequenceId(logger, NOCONTEXT, entity));
+            if (current > sinceSeq) {
+                return true;
+            }
+            return await changed;
+        } finally {
+            clearTimeout(timer);
+            // A failing UNLISTEN must not replace the result of the wait
+            await this.conn.v.unlisten(
+                PgConnection.CHANGES_CHANNEL, listener)
+            .catch((error) => {
+                logger.error(`Cannot stop listening for changes: ${error}`);
+            });
+        }
+    }
+
     private revInAncestry(row: Row, rev: string): boolean {
         if (row.get("vc_rev") == rev) {
             return true;
@@ -387,7 +425,8 @@ export class PgReplication extends PgBaseClient implements IReplicationService {
 
     async getAllLeafRevs(logger: Logger, entity: Entity, id: string,
                          query: RevsQuery, multipart: boolean,
-                         boundary?: string): Promise<string> {
+                         boundary?: string,
+                         mask?: (row: Row) => Row): Promise<string> {
         /* ?latest=true and ?revs=true are always assumed.
          * If query.open_revs is empty, we assume ?open_revs=all
          * Since ?latest=true is always assumed to be present (even if it
@@ -445,7 +484,7 @@ export class PgReplication extends PgBaseClient implements IReplicationService {
                 const revisions = this.getRevisions(row);
                 this.convertDbRowToAppRow(row);
                 row.add("_revisions", revisions);
-                renderedRows.push(row.raw());
+                renderedRows.push(mask ? mask(row).raw() : row.raw());
             }
         }
         if (multipart) {
@@ -19,7 +19,8 @@
 
 import {
     ClassSpec, TypeCfg, Row, IContext, IResultSet, _IError, IConfiguration,
-    PolicyAction, IPolicyConfiguration
+    PolicyAction, IPolicyConfiguration, Entity, Filter, IPolicyAuditor,
+    PolicyDecision, MemResultSet
 } from "../base/core.js";
 
 import { ClassInfo, Reflection } from "../base/reflect.js";
@@ -32,31 +33,60 @@ class PolicyError extends _IError {
 }
 
 type MatchCombineAs = "any" | "all";
-type MatchOperand = "eq" | "ne" | "isNull" | "isNotNull";
-
+type MatchOperand =
+    "eq" | "ne" | "isNull" | "isNotNull" | "in" | "notIn" |
+    "gt" | "lt" | "gte" | "lte";
+
+/* The subject is either a row attribute, a context value like ${userid},
+ * ${my.<membership>}, ${now}, ${today} and ${tomorrow}, or for 'in' and
+ * 'notIn' also a list of literal values.
+ */
 type MatchCondition = {
     attr: string;
     op: MatchOperand;
-    subject: string;
+    subject?: string | string[];
 }
 
 type PolicyWhere = {
     match: MatchCombineAs;
-    conditions: MatchCondition[];
+    conditions: (MatchCondition | PolicyWhere)[];
 }
 
 type PolicyEffect = "allow" | "deny";
 
+/* Column rules of an 'allow' statement. On 'get', hidden columns are stripped
+ * and masked columns are blanked out. On 'put' and 'post', protected columns
+ * cannot be changed.
+ */
+type PolicyFields = {
+    hide?: string[];
+    mask?: string[];
+    protect?: string[];
+}
+
+type FieldRule = keyof PolicyFields;
+
 type PolicyStatement = {
     resource: string;
     action: PolicyAction;
     effect: PolicyEffect;
     where?: PolicyWhere;
+    fields?: PolicyFields;
+}
+
+type RowGuard = {
+    context: IContext;
+    resource: string;
+    action: PolicyAction;
+    row: Row;
+    subjectCache: Map<string, string>;
 }
 
-type PolicyResult = {
-    result: boolean;
-    doBreak: boolean;
+type SqlGuard = {
+    context: IContext;
+    table: string;
+    parameters: any[];
+    subjectCache: Map<string, string>;
 }
 
 export type PolicySpec = ClassSpec & {
@@ -68,6 +98,24 @@ export class Policy {
     readonly name: string;
     appliesTo: string;
     readonly statements: PolicyStatement[];
+    private policyConfig?: PolicyConfiguration;
+
+    static Operands: MatchOperand[] = [
+        "eq", "ne", "isNull", "isNotNull", "in", "notIn",
+        "gt", "lt", "gte", "lte"
+    ];
+
+    static Mask = "********";
+
+    static SqlOperators: Map<MatchOperand, string> = new Map([
+        ["eq", "="], ["ne", "<>"], ["gt", ">"], ["lt", "<"],
+        ["gte", ">="], ["lte", "<="]
+    ]);
+
+    static isGroup(
+        condition: MatchCondition | PolicyWhere): condition is PolicyWhere {
+        return "match" in condition;
+    }
 
     constructor(config: TypeCfg<PolicySpec>, blueprints: Map<string, any>) {
         this.name = config.metadata.name;
@@ -75,53 +123,197 @@ export class Policy {
         this.statements = config.spec.statements;
     }
 
+    private configureColumn(column: string, resource: string,
+                            columns?: string[]): void {
+        if (!Filter.ColumnRegex.test(column) || column.includes(".") ||
+            (columns && !columns.includes(column))) {
+            throw new PolicyError(
+                `Policy '${this.name}' resource '${resource}' references ` +
+                `invalid column '${column}'`, 500);
+        }
+    }
+
+    private configureWhere(where: PolicyWhere, resource: string,
+                           columns?: string[]): void {
+        if (where.match != "any" && where.match != "all") {
+            throw new PolicyError(
+                `Policy '${this.name}' resource '${resource}' has an ` +
+                `invalid match '${where.match}'`, 500);
+        }
+        for (const condition of where.conditions) {
+            if (Policy.isGroup(condition)) {
+                this.configureWhere(condition, resource, columns);
+                continue;
+            }
+            this.configureColumn(condition.attr, resource, columns);
+            if (typeof condition.subject == "string" &&
+                !condition.subject.startsWith("${")) {
+                this.configureColumn(condition.subject, resource, columns);
+            }
+            if (!Policy.Operands.includes(condition.op)) {
+                throw new PolicyError(
+                    `Policy '${this.name}' resource '${resource}' attr ` +
+                    `'${condition.attr}' has an invalid op '${condition.op}'`,
+                    500);
+            }
+            const needsSubject =
+                condition.op != "isNull" && condition.op != "isNotNull";
+            if (needsSubject && condition.subject === undefined) {
+                throw new PolicyError(
+                    `Policy '${this.name}' resource '${resource}' attr ` +
+                    `'${condition.attr}' op '${condition.op}' requires a ` +
+                    `subject`, 500);
+            }
+            if (Array.isArray(condition.subject) &&
+                condition.op != "in" && condition.op != "notIn") {
+                throw new PolicyError(
+                    `Policy '${this.name}' resource '${resource}' attr ` +
+                    `'${condition.attr}': only 'in' and 'notIn' accept a ` +
+                    `list subject`, 500);
+            }
+        }
+    }
+
+    private resourceEntity(resource: string,
+                           config: IConfiguration): Entity | undefined {
+        return resource.startsWith("entity/") ?
+            config.entities.get(resource.substring("entity/".length)) :
+            undefined;
+    }
+
+    private configureFields(statement: PolicyStatement,
+                            config: IConfiguration): void {
+        const fields = statement.fields!;
+        const resource = statement.resource;
+        if (statement.effect != "allow") {
+            throw new PolicyError(
+                `Policy '${this.name}' resource '${resource}': fields can ` +
+                `only be set on 'allow' statements`, 500);
+        }
+        if ((fields.hide || fields.mask) && statement.action != "get") {
+            throw new PolicyError(
+                `Policy '${this.name}' resource '${resource}': 'hide' and ` +
+                `'mask' only apply to 'get'`, 500);
+        }
+        if (fields.protect &&
+            statement.action != "put" && statement.action != "post") {
+            throw new PolicyError(
+                `Policy '${this.name}' resource '${resource}': 'protect' ` +
+                `only applies to 'put' and 'post'`, 500);
+        }
+        const entity = this.resourceEntity(resource, config);
+        const columns = entity ? entity.allFieldColumns : undefined;
+        const listed = (fields.hide || []).concat(
+            fields.mask || [], fields.protect || []);
+        for (const column of listed) {
+            if (columns && !columns.includes(column)) {
+                throw new PolicyError(
+                    `Policy '${this.name}' resource '${resource}' references ` +
+                    `invalid column '${column}'`, 500);
+            }
+        }
+    }
+
     configure(policyConfig: PolicyConfiguration, config: IConfiguration) {
+        this.policyConfig = policyConfig;
         if (!config.personas.has(this.appliesTo)) {
             throw new PolicyError(
                 `Policy '${this.name}' appliesTo references invalid ` +
                 `Persona '${this.appliesTo}'`, 500);
         }
+        for (const statement of this.statements) {
+            if (statement.where) {
+                const entity = this.resourceEntity(statement.resource, config);
+                this.configureWhere(
+                    statement.where, statement.resource,
+                    entity ?
+                        entity.allFieldColumns.concat("_id", "_rev") :
+                        undefined);
+            }
+            if (statement.fields) {
+                this.configureFields(statement, config);
+            }
+        }
+    }
+
+    private decision(context: IContext, resource: string,
+                     action: PolicyAction, effect: "allow" | "deny",
+                     reason: string, index?: number, row?: Row): void {
+        if (!this.policyConfig || !this.policyConfig.auditor) {
+            return;
+        }
+        this.policyConfig.audit({
+            decided: new Date(),
+            userAccountId: context.userAccountId,
+            persona: context.persona.name,
+            resource: resource,
+            action: action,
+            effect: effect,
+            rule: index === undefined ? this.name : `${this.name}[${index}]`,
+            reason: reason,
+            rowId: row && row.has("_id") ? row.getString("_id") : undefined
+        });
+    }
+
+    private violation(kind: string, context: IContext, resource: string,
+                      action: PolicyAction, reason: string, index?: number,
+                      row?: Row): PolicyError {
+        console.log(
+            `Policy violation: ${kind} ` +
+            `policy: [${this.name}] ` +
+            `resource: [${resource}] ` +
+            `userAccountId: [${context.userAccountId}] ` +
+            `persona: [${context.persona.name}] ` +
+            `action: [${action}] ` +
+            `reason: ${reason}`);
+        this.decision(context, resource, action, "deny", reason, index, row);
+        return new PolicyError();
+    }
+
+    /* A scope is "<resource>:<action>", where either part can be "*".
+     */
+    static inScope(scopes: string[], resource: string,
+                   action: PolicyAction): boolean {
+        return scopes.some((scope) => {
+            const separator = scope.lastIndexOf(":");
+            const scopeResource =
+                separator < 0 ? scope : scope.substring(0, separator);
+            const scopeAction =
+                separator < 0 ? "*" : scope.substring(separator + 1);
+            return (scopeResource == "*" || scopeResource == resource) &&
+                (scopeAction == "*" || scopeAction == action);
+        });
     }
 
     guardResource(context: IContext, resource: string,
                   action: PolicyAction): void {
-        let allowed = false;
-        for (const statement of this.statements) {
-            if (statement.resource == resource &&
-                    statement.action == action &&
-                    statement.effect == "allow") {
-                allowed = true;
-                break;
-            }
+        if (context.scopes && !Policy.inScope(
+                context.scopes, resource, action)) {
+            throw this.violation(
+                "guard", context, resource, action,
+                "Resource is outside the scopes of the API key");
         }
-        if (!allowed) {
-            console.log(
-                `Policy violation: guard ` +
-                `policy: [${this.name}] ` +
-                `resource: [${resource}] ` +
-                `userAccountId: [${context.userAccountId}] ` +
-                `persona: [${context.persona.name}] ` +
-                `action: [${action}] ` +
-                `reason: No [allow] rules found for resource`);
-            throw new PolicyError();
+        const allowIndex = this.statements.findIndex(
+            (statement) => statement.resource == resource &&
+                statement.action == action &&
+                statement.effect == "allow");
+        if (allowIndex < 0) {
+            throw this.violation(
+                "guard", context, resource, action,
+                "No [allow] rules found for resource");
         }
-        for (const statement of this.statements) {
-            if (statement.resource == resource &&
-                    statement.action == action &&
-                    statement.effect == "deny" &&
-                    (!statement.where ||
-                     statement.where.conditions.length == 0)) {
-                console.log(
-                    `Policy violation: guard ` +
-                    `policy: [${this.name}] ` +
-                    `resource: [${resource}] ` +
-                    `userAccountId: [${context.userAccountId}] ` +
-                    `persona: [${context.persona.name}] ` +
-                    `action: [${action}] ` +
-                    `reason: A specific [deny] rule prohibits access`);
-                throw new PolicyError();
-            }
+        const denyIndex = this.statements.findIndex(
+            (statement) => statement.resource == resource &&
+                statement.action == action &&
+                statement.effect == "deny" &&
+                (!statement.where || statement.where.conditions.length == 0));
+        if (denyIndex >= 0) {
+            throw this.violation(
+                "guard", context, resource, action,
+                "A specific [deny] rule prohibits access", denyIndex);
         }
+        this.decision(
+            context, resource, action, "allow", "Resource access", allowIndex);
     }
 
     private personaSubject(context: IContext, subject: string,
@@ -133,6 +325,20 @@ export class Policy {
         if (subject == "${userid}") {
             return context.userAccountId;
         }
+        if (subject == "${now}" || subject == "${today}" ||
+            subject == "${tomorrow}") {
+            const moment = new Date();
+            if (subject != "${now}") {
+                // Local midnight of the server
+                moment.setHours(0, 0, 0, 0);
+                if (subject == "${tomorrow}") {
+                    moment.setDate(moment.getDate() + 1);
+                }
+            }
+            const result = moment.toISOString();
+            cache.set(subject, result);
+            return result;
+        }
         const subjectRegex = /\$\{my\.(\w+)}/;
         const match = subjectRegex.exec(subject);
         if (match) {
@@ -145,220 +351,379 @@ export class Policy {
         return "";
     }
 
-    private checkNull(op: MatchOperand, statement: PolicyStatement,
-                      value: string): PolicyResult {
-        const valueNull = value.length == 0;
-        const check = { result: false, doBreak: false };
-        const conditionResult = (op == "isNull" ? valueNull : !valueNull);
-        if (conditionResult) {
-            check.result = true;
-            if (statement.where!.match == "any") {
-                check.doBreak = true;
-            }
-        } else {
-            check.result = false;
-            if (statement.where!.match == "all") {
-                check.doBreak = true;
-            }
+    private subjectValue(guard: RowGuard, subject: string): string {
+        if (subject.startsWith("${")) {
+            return this.personaSubject(
+                guard.context, subject, guard.subjectCache);
         }
-        return check;
+        return guard.row.getString(subject);
     }
 
-    private checkEquals(op: MatchOperand, context: IContext,
-                        statement: PolicyStatement, condition: MatchCondition,
-                        subjectCache: Map<string, string>, attrValue: string,
-                        row: Row): PolicyResult {
-        const attrValueNull = attrValue.length == 0;
-        const check = { result: false, doBreak: false };
-        if (!attrValueNull) {
-            let subjectValue = "";
-            if (condition.subject.startsWith("${")) {
-                subjectValue = this.personaSubject(
-                    context, condition.subject, subjectCache);
-            } else {
-                subjectValue = row.getString(condition.subject);
+    private subjectValues(guard: RowGuard,
+                          subject: string | string[]): string[] {
+        if (Array.isArray(subject)) {
+            return subject;
+        }
+        const match = /^\$\{my\.(\w+)}$/.exec(subject);
+        if (match) {
+            return guard.context.getMembers(match[1]);
+        }
+        const value = this.subjectValue(guard, subject);
+        return value ? [value] : [];
+    }
+
+    /* Dates, numbers and ISO date strings compare by value, anything else
+     * compares as a string.
+     */
+    private toComparable(value: any): number | string {
+        if (value instanceof Date) {
+            return value.getTime();
+        }
+        if (typeof value == "number" || typeof value == "bigint") {
+            return Number(value);
+        }
+        const str = `${value}`;
+        if (/^-?\d+(\.\d+)?$/.test(str)) {
+            return Number(str);
+        }
+        if (/^\d{4}-\d{2}-\d{2}/.test(str)) {
+            const time = Date.parse(str);
+            if (!isNaN(time)) {
+                return time;
             }
-            if (subjectValue.length == 0) {
-                check.result = false;
-                if (statement.where!.match == "all") {
-                    check.doBreak = true;
-                }
-            } else {
-                const conditionResult = (op == "eq" ?
-                                         (attrValue == subjectValue) :
-                                         (attrValue != subjectValue));
-                check.result = conditionResult;
-                if ((check.result && statement.where!.match == "any") ||
-                    (!check.result && statement.where!.match == "all")) {
-                    check.doBreak = true;
-                }
+        }
+        return str;
+    }
+
+    private compare(op: MatchOperand, attrValue: any,
+                    subjectValue: string): boolean {
+        const left = this.toComparable(attrValue);
+        const right = this.toComparable(subjectValue);
+        if (typeof left != typeof right) {
+            return false;
+        }
+        switch (op) {
+            case "gt":
+                return left > right;
+            case "lt":
+                return left < right;
+            case "gte":
+                return left >= right;
+            default:
+                return left <= right;
+        }
+    }
+
+    private evaluateCondition(guard: RowGuard,
+                              condition: MatchCondition): boolean {
+        if (!guard.row.has(condition.attr)) {
+            throw this.violation(
+                "row guard", guard.context, guard.resource, guard.action,
+                `Missing attr [${condition.attr}]`, undefined, guard.row);
+        }
+        const attrValue = guard.row.getString(condition.attr);
+        if (condition.op == "isNull") {
+            return attrValue.length == 0;
+        }
+        if (condition.op == "isNotNull") {
+            return attrValue.length > 0;
+        }
+        // Null never matches a comparison
+        if (attrValue.length == 0) {
+            return false;
+        }
+        if (condition.op == "in" || condition.op == "notIn") {
+            const found = this.subjectValues(
+                guard, condition.subject!).includes(attrValue);
+            return condition.op == "in" ? found : !found;
+        }
+        const subjectValue = this.subjectValue(
+            guard, <string>condition.subject);
+        if (subjectValue.length == 0) {
+            return false;
+        }
+        if (condition.op == "eq") {
+            return attrValue == subjectValue;
+        }
+        if (condition.op == "ne") {
+            return attrValue != subjectValue;
+        }
+        return this.compare(
+            condition.op, guard.row.get(condition.attr), subjectValue);
+    }
+
+    private evaluate(guard: RowGuard, where: PolicyWhere): boolean {
+        // A group without conditions never matches
+        if (where.conditions.length == 0) {
+            return false;
+        }
+        for (const condition of where.conditions) {
+            const result = Policy.isGroup(condition) ?
+                this.evaluate(guard, condition) :
+                this.evaluateCondition(guard, condition);
+            if (result && where.match == "any") {
+                return true;
             }
-        } else {
-            check.result = false;
-            if (statement.where!.match == "all") {
-                check.doBreak = true;
+            if (!result && where.match == "all") {
+                return false;
             }
         }
-        return check;
+        return where.match == "all";
     }
 
+    /* Returns the rows of the current page this persona may read. The query
+     * filter from createFilter() should already have left out the others,
+     * but SQL and JS evaluation can differ at the edges (types, time zones)
+     * and collections 'via' another collection get no filter at all, so the
+     * rows that fail are skipped with a logged violation instead of failing
+     * the whole query.
+     */
     guardResultSet(context: IContext, resource: string,
                    resultSet: IResultSet): IResultSet {
         const subjectCache: Map<string, string> = new Map();
+        const allowed = new MemResultSet([]);
         while (resultSet.next()) {
-            this.guardRow(context, resource, "get", resultSet.getRow(),
-                          subjectCache);
+            try {
+                allowed.addRow(this.guardRow(
+                    context, resource, "get", resultSet.getRow(),
+                    subjectCache));
+            } catch (error) {
+                if (!(error instanceof PolicyError)) {
+                    throw error;
+                }
+            }
         }
-        return resultSet;
+        return allowed;
     }
 
     guardRow(context: IContext, resource: string, action: PolicyAction,
              row: Row, cache?: Map<string, string>): Row {
-        let allowed = false;
-        const subjectCache: Map<string, string> = cache || new Map();
-        for (const statement of this.statements) {
-            if (statement.resource == resource &&
-                    statement.action == action &&
-                    statement.effect == "allow") {
-                if (!statement.where) {
-                    allowed = true;
-                    break;
-                }
-                let conditionAllowed = false;
-                for (const condition of statement.where.conditions) {
-                    if (row.has(condition.attr)) {
-                        const attrValue = row.getString(condition.attr);
-                        if (condition.op == "isNull" ||
-                            condition.op == "isNotNull") {
-                            const check = this.checkNull(
-                                condition.op, statement, attrValue);
-                            conditionAllowed = check.result;
-                            if (check.doBreak) {
-                                break;
-                            }
-                        } else if (condition.op == "eq" ||
-                                   condition.op == "ne") {
-                            const check = this.checkEquals(
-                                condition.op, context, statement, condition,
-                                subjectCache, attrValue, row);
-                            conditionAllowed = check.result;
-                            if (check.doBreak) {
-                                break;
-                            }
-                        }
-                    } else {
-                        console.log(
-                            `Policy violation: row guard ` +
-                            `policy: [${this.name}] ` +
-                            `resource: [${resource}] ` +
-                            `userAccountId: [${context.userAccountId}] ` +
-                            `persona: [${context.persona.name}] ` +
-                            `action: [${action}] ` +
-                            `reason: Missing attr [${condition.attr}]`);
-                        throw new PolicyError();
-                    }
-                }
-                if (conditionAllowed) {
-                    allowed = true;
-                    break;
-                }
+        const guard: RowGuard = {
+            context: context,
+            resource: resource,
+            action: action,
+            row: row,
+            subjectCache: cache || new Map()
+        };
+        const matches = (statement: PolicyStatement, effect: PolicyEffect) =>
+            statement.resource == resource && statement.action == action &&
+            statement.effect == effect &&
+            (!statement.where || this.evaluate(guard, statement.where));
+        const allowIndex = this.statements.findIndex(
+            (statement) => matches(statement, "allow"));
+        if (allowIndex < 0) {
+            throw this.violation(
+                "row guard", context, resource, action,
+                "No [allow] rule evaluated to true", undefined, row);
+        }
+        const denyIndex = this.statements.findIndex(
+            (statement) => matches(statement, "deny"));
+        if (denyIndex >= 0) {
+            throw this.violation(
+                "row guard", context, resource, action,
+                "A specific [deny] rule prohibits access", denyIndex, row);
+        }
+        this.decision(
+            context, resource, action, "allow", "Row access", allowIndex, row);
+        return row;
+    }
+
+    private sqlParameter(guard: SqlGuard, value: any): string {
+        guard.parameters.push(value);
+        return `\$${guard.parameters.length}`;
+    }
+
+    // An empty context value binds as null, which never matches
+    private sqlSubject(guard: SqlGuard, subject: string): string {
+        if (subject.startsWith("${")) {
+            const value = this.personaSubject(
+                guard.context, subject, guard.subjectCache);
+            return this.sqlParameter(guard, value || null);
+        }
+        return `${guard.table}.${subject}`;
+    }
+
+    private sqlSubjects(guard: SqlGuard, subject: string | string[]): string {
+        if (Array.isArray(subject)) {
+            return this.sqlParameter(guard, subject);
+        }
+        const match = /^\$\{my\.(\w+)}$/.exec(subject);
+        if (match) {
+            return this.sqlParameter(
+                guard, guard.context.getMembers(match[1]));
+        }
+        if (subject.startsWith("${")) {
+            const value = this.personaSubject(
+                guard.context, subject, guard.subjectCache);
+            return this.sqlParameter(guard, value ? [value] : []);
+        }
+        return `array_remove(array[${guard.table}.${subject}], null)`;
+    }
+
+    /* Mirrors evaluateCondition(): a comparison with null is false instead of
+     * unknown, so the result can safely be negated.
+     */
+    private sqlCondition(guard: SqlGuard, condition: MatchCondition): string {
+        const column = `${guard.table}.${condition.attr}`;
+        switch (condition.op) {
+            case "isNull":
+                return `${column} is null`;
+            case "isNotNull":
+                return `${column} is not null`;
+            case "in":
+                return `coalesce(${column} = any(` +
+                    `${this.sqlSubjects(guard, condition.subject!)}), false)`;
+            case "notIn":
+                return `coalesce(${column} is not null and ${column} <> all(` +
+                    `${this.sqlSubjects(guard, condition.subject!)}), false)`;
+        }
+        const operator = Policy.SqlOperators.get(condition.op);
+        const subject = this.sqlSubject(guard, <string>condition.subject);
+        return `coalesce(${column} ${operator} ${subject}, false)`;
+    }
+
+    private sqlWhere(guard: SqlGuard, where: PolicyWhere): string {
+        // A group without conditions never matches
+        if (where.conditions.length == 0) {
+            return "false";
+        }
+        const parts = where.conditions.map(
+            (condition) => Policy.isGroup(condition) ?
+                this.sqlWhere(guard, condition) :
+                this.sqlCondition(guard, condition));
+        return `(${parts.join(where.match == "any" ? " or " : " and ")})`;
+    }
+
+    /* Translates the 'where' conditions of the 'get' statements into a sealed
+     * Filter, so the query itself leaves out the rows this persona may not
+     * read. The conditions of 'filter' are kept.
+     */
+    createFilter(context: IContext, entity: Entity,
+                 filter?: Filter): Filter | undefined {
+        const resource = `entity/${entity.name}`;
+        const statements = this.statements.filter(
+            (statement) => statement.resource == resource &&
+                statement.action == "get");
+        const guard: SqlGuard = {
+            context: context,
+            table: entity.table,
+            parameters: [],
+            subjectCache: new Map()
+        };
+        const parts: string[] = [];
+        const allowAll = statements.some(
+            (statement) => statement.effect == "allow" && !statement.where);
+        if (!allowAll) {
+            const allows = statements.filter(
+                (statement) => statement.effect == "allow").map(
+                    (statement) => this.sqlWhere(guard, statement.where!));
+            if (allows.length == 0) {
+                parts.push("false");
+            } else {
+                parts.push(allows.length == 1 ?
+                    allows[0] : `(${allows.join(" or ")})`);
             }
         }
-        if (!allowed) {
-            console.log(
-                `Policy violation: row guard ` +
-                `policy: [${this.name}] ` +
-                `resource: [${resource}] ` +
-                `userAccountId: [${context.userAccountId}] ` +
-                `persona: [${context.persona.name}] ` +
-                `action: [${action}] ` +
-                `reason: No [allow] rule evaluated to true`);
-            throw new PolicyError();
+        for (const statement of statements) {
+            // A 'deny' without conditions is already enforced by guardResource
+            if (statement.effect == "deny" && statement.where) {
+                parts.push(`not ${this.sqlWhere(guard, statement.where)}`);
+            }
+        }
+        if (parts.length == 0) {
+            return filter;
         }
+        return new Filter().sealWith(
+            parts.join(" and "), filter, guard.parameters);
+    }
+
+    private fieldRule(resource: string, action: PolicyAction,
+                      rule: FieldRule): string[] {
+        const columns: string[] = [];
         for (const statement of this.statements) {
             if (statement.resource == resource &&
                     statement.action == action &&
-                    statement.effect == "deny") {
-                if (!statement.where) {
-                    console.log(
-                        `Policy violation: row guard ` +
-                        `policy: [${this.name}] ` +
-                        `resource: [${resource}] ` +
-                        `userAccountId: [${context.userAccountId}] ` +
-                        `persona: [${context.persona.name}] ` +
-                        `action: [${action}] ` +
-                        `reason: A specific [deny] rule prohibits access`);
-                    throw new PolicyError();
-                }
-                let conditionDenied = false;
-                for (const condition of statement.where.conditions) {
-                    if (row.has(condition.attr)) {
-                        const attrValue = row.getString(condition.attr);
-                        if (condition.op == "isNull" ||
-                            condition.op == "isNotNull") {
-                            const check = this.checkNull(
-                                condition.op, statement, attrValue);
-                            conditionDenied = check.result;
-                            if (check.doBreak) {
-                                console.log(
-                                    `Policy violation: row guard ` +
-                                    `policy: [${this.name}] ` +
-                                    `resource: [${resource}] ` +
-                                    `userAccountId: [${context.userAccountId}] ` +
-                                    `persona: [${context.persona.name}] ` +
-                                    `action: [${action}] ` +
-                                    `attr: [${condition.attr}] ` +
-                                    `op: [${condition.op}] ` +
-                                    `subject: [${condition.subject}] ` +
-                                    `reason: [deny] rule prohibits access`);
-                                throw new PolicyError();
-                            }
-                        } else if (condition.op == "eq" ||
-                                   condition.op == "ne") {
-                            const check = this.checkEquals(
-                                condition.op, context, statement, condition,
-                                subjectCache, attrValue, row);
-                            conditionDenied = check.result;
-                            if (check.doBreak) {
-                                console.log(
-                                    `Policy violation: row guard ` +
-                                    `policy: [${this.name}] ` +
-                                    `resource: [${resource}] ` +
-                                    `userAccountId: [${context.userAccountId}] ` +
-                                    `persona: [${context.persona.name}] ` +
-                                    `action: [${action}] ` +
-                                    `attr: [${condition.attr}] ` +
-                                    `op: [${condition.op}] ` +
-                                    `subject: [${condition.subject}] ` +
-                                    `reason: [deny] rule prohibits access`);
-                                throw new PolicyError();
-                            }
-                        }
-                    } else {
-                        console.log(
-                            `Policy violation: row guard ` +
-                            `policy: [${this.name}] ` +
-                            `resource: [${resource}] ` +
-                            `userAccountId: [${context.userAccountId}] ` +
-                            `persona: [${context.persona.name}] ` +
-                            `action: [${action}] ` +
-                            `reason: Missing attr [${condition.attr}]`);
-                        throw new PolicyError();
-                    }
-                }
-                if (conditionDenied) {
-                    console.log(
-                        `Policy violation: row guard ` +
-                        `policy: [${this.name}] ` +
-                        `resource: [${resource}] ` +
-                        `userAccountId: [${context.userAccountId}] ` +
-                        `persona: [${context.persona.name}] ` +
-                        `action: [${action}] ` +
-                        `reason: A specific [deny] rule prohibits access`);
-                    throw new PolicyError();
+                    statement.effect == "allow" &&
+                    statement.fields && statement.fields[rule]) {
+                columns.push(...statement.fields[rule]!);
+            }
+        }
+        return columns;
+    }
+
+    private hiddenColumns(resource: string): string[] {
+        return this.fieldRule(resource, "get", "hide").concat(
+            this.fieldRule(resource, "get", "mask"));
+    }
+
+    private sameValue(left: any, right: any): boolean {
+        if (left === null || left === undefined) {
+            return right === null || right === undefined;
+        }
+        if (right === null || right === undefined) {
+            return false;
+        }
+        if (typeof left == "object" && !(left instanceof Date)) {
+            return JSON.stringify(left) == JSON.stringify(right);
+        }
+        return this.toComparable(left) === this.toComparable(right);
+    }
+
+    hasFieldRules(resource: string, action: PolicyAction): boolean {
+        return this.hiddenColumns(resource).length > 0 ||
+            this.fieldRule(resource, action, "protect").length > 0;
+    }
+
+    /* Returns a copy of the row without the hidden columns and with the
+     * masked columns blanked out, the row itself is never changed.
+     */
+    maskRow(context: IContext, resource: string, row: Row): Row {
+        const hide = this.fieldRule(resource, "get", "hide");
+        const mask = this.fieldRule(resource, "get", "mask");
+        if (hide.length == 0 && mask.length == 0) {
+            return row;
+        }
+        const result = row.copyWithout(hide);
+        for (const column of mask) {
+            if (result.has(column) && !result.isNull(column)) {
+                const value = result.get(column);
+                result.put(
+                    column, typeof value == "string" ? Policy.Mask : null);
+            }
+        }
+        return result;
+    }
+
+    /* On 'put', hidden, masked and protected columns that the payload left
+     * out, or sent back masked, are restored from the current row. A payload
+     * that changes a protected column is rejected. Without a current row,
+     * protected columns must be null.
+     */
+    guardFields(context: IContext, resource: string, action: PolicyAction,
+                row: Row, current?: Row): Row {
+        const protect = this.fieldRule(resource, action, "protect");
+        const existing = current && !current.empty ? current : undefined;
+        if (existing) {
+            for (const column of this.hiddenColumns(resource).concat(protect)) {
+                if (existing.has(column) &&
+                    (!row.has(column) || row.get(column) === Policy.Mask)) {
+                    row.updateOrAdd(column, existing.get(column));
                 }
             }
         }
+        for (const column of protect) {
+            if (!row.has(column)) {
+                continue;
+            }
+            const changed = existing ?
+                !this.sameValue(row.get(column), existing.get(column)) :
+                !row.isNull(column);
+            if (changed) {
+                throw this.violation(
+                    "field guard", context, resource, action,
+                    `Column [${column}] is protected`, undefined, row);
+            }
+        }
         return row;
     }
 }
@@ -371,6 +736,7 @@ export class PolicyConfiguration implements IPolicyConfiguration {
     policyByPersona: Map<string, Policy>;
     json_config: TypeCfg<PolicySpec>[];
     classes: Map<string, any>;
+    auditor?: IPolicyAuditor;
 
     constructor() {
         this.json_config = [];
@@ -466,18 +832,39 @@ export class PolicyConfiguration implements IPolicyConfiguration {
               action: PolicyAction): Policy {
         const policy = this.policyByPersona.get(context.persona.name);
         if (!policy) {
+            const reason = "No policy found for that Persona";
             console.log(
                 `Policy violation: guard ` +
                 `resource: [${resource}] ` +
                 `userAccountId: [${context.userAccountId}] ` +
                 `persona: [${context.persona.name}] ` +
                 `action: [${action}] ` +
-                `reason: No policy found for that Persona`);
+                `reason: ${reason}`);
+            this.audit({
+                decided: new Date(),
+                userAccountId: context.userAccountId,
+                persona: context.persona.name,
+                resource: resource,
+                action: action,
+                effect: "deny",
+                rule: "",
+                reason: reason
+            });
             throw new PolicyError();
         }
         return policy;
     }
 
+    setAuditor(auditor: IPolicyAuditor): void {
+        this.auditor = auditor;
+    }
+
+    audit(decision: PolicyDecision): void {
+        if (this.auditor) {
+            this.auditor.record(decision);
+        }
+    }
+
     guardResource(context: IContext, resource: string,
                   action: PolicyAction): void {
         this.getPolicy(context, resource, action).guardResource(
@@ -495,5 +882,28 @@ export class PolicyConfiguration implements IPolicyConfiguration {
         return this.getPolicy(context, resource, "get").guardResultSet(
             context, resource, resultSet);
     }
+
+    createFilter(context: IContext, entity: Entity,
+                 filter?: Filter): Filter | undefined {
+        return this.getPolicy(context, `entity/${entity.name}`, "get")
+            .createFilter(context, entity, filter);
+    }
+
+    hasFieldRules(context: IContext, resource: string,
+                  action: PolicyAction): boolean {
+        return this.getPolicy(context, resource, action).hasFieldRules(
+            resource, action);
+    }
+
+    maskRow(context: IContext, resource: string, row: Row): Row {
+        return this.getPolicy(context, resource, "get").maskRow(
+            context, resource, row);
+    }
+
+    guardFields(context: IContext, resource: string, action: PolicyAction,
+                row: Row, current?: Row): Row {
+        return this.getPolicy(context, resource, action).guardFields(
+            context, resource, action, row, current);
+    }
 }
 
@@ -18,10 +18,11 @@
 */
 
 import { IncomingMessage, ServerResponse } from "http";
+import { createHash } from "node:crypto";
 
 import {
     _IError, JsonObject, Entity, Row, Cfg, TypeCfg, IConfiguration,
-    IContext, Logger, Filter, Source, ClassSpec
+    IContext, Logger, Filter, Source, ClassSpec, ValidationError, Phase
 } from "../base/core.js";
 
 import { NOCONTEXT } from "../base/configuration.js";
@@ -54,10 +55,13 @@ export interface IReplicationService {
                         repState: JsonObject): Promise<ReplicationResponse>;
     getChangesNormal(logger: Logger, entity: Entity,
                      query: ChangesFeedQuery): Promise<NormalChangeFeed>;
+    waitForChanges(logger: Logger, entity: Entity, since: string,
+                   timeout: number): Promise<boolean>;
     getRevsDiffRequest(logger: Logger, entity: Entity,
                        diffRequest: RevsDiffRequest): Promise<RevsDiffResponse>;
     getAllLeafRevs(logger: Logger, entity: Entity, id: string, query: RevsQuery,
-                   multipart: boolean, boundary?: string): Promise<string>;
+                   multipart: boolean, boundary?: string,
+                   mask?: (row: Row) => Row): Promise<string>;
     postBulkGet(logger: Logger, entity: Entity, request: BulkGetRequest,
                 query: RevsQuery): Promise<BulkGetResponse>;
     postBulkDocs(logger: Logger, entity: Entity,
@@ -394,7 +398,8 @@ export class ReplicationAdapter extends SessionAwareAdapter {
         this.loginEntity.v = configuration.getEntity("login");
     }
 
-    async handleGetReplicateRevs(entity: Entity, request: IncomingMessage,
+    async handleGetReplicateRevs(context: IContext, entity: Entity,
+                                 request: IncomingMessage,
                                  response: ServerResponse,
                                  uriElements: string[]): Promise<void> {
         /*
@@ -410,8 +415,10 @@ export class ReplicationAdapter extends SessionAwareAdapter {
             new RevsQuery(uriElements.length > 4 ? uriElements[4] : "");
         const boundary = multipart ?
             Entity.generateId().replaceAll("-", "") : "";
+        const resource = `entity/${entity.name}`;
         const result = await this.replSource.v.getAllLeafRevs(
-            this.logger, entity, id, revsQuery, multipart, boundary);
+            this.logger, entity, id, revsQuery, multipart, boundary,
+            (row) => this.policyConfig.v.maskRow(context, resource, row));
         if (this.logger.willLog("Debug")) {
             if (multipart) {
                 this.logger.debug("multipart response requested");
@@ -435,13 +442,117 @@ export class ReplicationAdapter extends SessionAwareAdapter {
          *                                             Changes feed
          */
         const changesQuery = new ChangesFeedQuery(uriElements[4]);
-        if (changesQuery.feed == "normal") {
-            const feed = await this.replSource.v.getChangesNormal(
+        switch (changesQuery.feed) {
+            case "normal": {
+                const feed = await this.replSource.v.getChangesNormal(
+                    this.logger, entity, changesQuery);
+                response.end(JSON.stringify(feed));
+                break;
+            }
+            case "longpoll":
+                await this.handleLongpollChanges(
+                    context, entity, changesQuery, response);
+                break;
+            case "continuous":
+                await this.handleContinuousChanges(
+                    context, entity, changesQuery, response);
+                break;
+            default:
+                throw new ReplicationError(
+                    `Change feed '${changesQuery.feed}' is not implemented`,
+                    400);
+        }
+    }
+
+    private async resolveSince(context: IContext, entity: Entity,
+                               changesQuery: ChangesFeedQuery): Promise<string> {
+        if (changesQuery.since == "now") {
+            return await this.replSource.v.getSequenceId(
+                this.logger, context, entity);
+        }
+        return changesQuery.since;
+    }
+
+    /* Waits for changes on the entity after 'since', writing a newline every
+     * 'heartbeat' milliseconds to keep the connection alive.
+     */
+    private async waitForChanges(entity: Entity, since: string,
+                                 changesQuery: ChangesFeedQuery,
+                                 response: ServerResponse): Promise<boolean> {
+        const heartbeat = changesQuery.heartbeat > 0 ?
+            setInterval(() => response.write("\n"), changesQuery.heartbeat) :
+            undefined;
+        try {
+            return await this.replSource.v.waitForChanges(
+                this.logger, entity, since, changesQuery.timeout);
+        } finally {
+            clearInterval(heartbeat);
+        }
+    }
+
+    async handleLongpollChanges(context: IContext, entity: Entity,
+                                changesQuery: ChangesFeedQuery,
+                                response: ServerResponse): Promise<void> {
+        /* Responds as soon as there is at least one change after 'since', or
+         * with an empty result once 'timeout' passes without changes.
+         */
+        changesQuery.since = await this.resolveSince(
+            context, entity, changesQuery);
+        let feed = await this.replSource.v.getChangesNormal(
+            this.logger, entity, changesQuery);
+        if (feed.results.length == 0 &&
+            await this.waitForChanges(
+                entity, changesQuery.since, changesQuery, response)) {
+            feed = await this.replSource.v.getChangesNormal(
                 this.logger, entity, changesQuery);
-            response.end(JSON.stringify(feed));
-        } else {
-            throw new ReplicationError("Not yet implemented");
         }
+        response.end(JSON.stringify(feed));
+    }
+
+    async handleContinuousChanges(context: IContext, entity: Entity,
+                                  changesQuery: ChangesFeedQuery,
+                                  response: ServerResponse): Promise<void> {
+        /* Writes every change as a single line of JSON until 'limit' changes
+         * were sent, 'timeout' passes without changes or the client goes
+         * away. The final line holds the last_seq.
+         */
+        let since = await this.resolveSince(context, entity, changesQuery);
+        let remaining = changesQuery.limit;
+        response.setHeader("Content-Type", "application/json");
+        try {
+            while (!response.destroyed) {
+                changesQuery.since = since;
+                changesQuery.limit = remaining;
+                const feed = await this.replSource.v.getChangesNormal(
+                    this.logger, entity, changesQuery);
+                for (const change of feed.results) {
+                    response.write(JSON.stringify(change) + "\n");
+                }
+                since = feed.last_seq;
+                if (remaining !== undefined) {
+                    remaining -= feed.results.length;
+                    if (remaining <= 0) {
+                        break;
+                    }
+                }
+                if (feed.pending) {
+                    continue;
+                }
+                if (!await this.waitForChanges(
+                        entity, since, changesQuery, response)) {
+                    break;
+                }
+            }
+        } catch (error) {
+            if (!response.headersSent) {
+                throw error;
+            }
+            // Too late for an error response, so close the feed instead
+            if (error instanceof Error) {
+                this.logger.exc(error);
+            }
+        }
+        response.end(JSON.stringify({ last_seq: since }) + "\n");
     }
 
     async handleGetReplicate(entityName: string, request: IncomingMessage,
@@ -504,7 +615,8 @@ export class ReplicationAdapter extends SessionAwareAdapter {
                 const row = await this.source.v.getOne(
                     this.logger, context, entity, uriElements[2]);
                 if (!row.empty) {
-                    response.end(JSON.stringify(row.raw()));
+                    response.end(JSON.stringify(this.policyConfig.v.maskRow(
+                        context, resource, row).raw()));
                 } else {
                     response.statusCode = 404;
                     response.end(JSON.stringify({
@@ -514,7 +626,7 @@ export class ReplicationAdapter extends SessionAwareAdapter {
                 }
             } else if (uriElements.length == 5 && uriElements[3] == "?") {
                 await this.handleGetReplicateRevs(
-                    entity, request, response, uriElements);
+                    context, entity, request, response, uriElements);
             } else {
                 throw new ReplicationError(
                     `Invalid request: invalid URI components for ` +
@@ -525,8 +637,8 @@ export class ReplicationAdapter extends SessionAwareAdapter {
         }
     }
 
-    async handleBulkGet(entity: Entity, payload: JsonObject,
-                        response: ServerResponse,
+    async handleBulkGet(context: IContext, entity: Entity,
+                        payload: JsonObject, response: ServerResponse,
                         uriElements: string[]): Promise<void> {
         /* https:/host/
          *             0   1       2        3            4
@@ -545,6 +657,15 @@ export class ReplicationAdapter extends SessionAwareAdapter {
 
         const bulk = await this.replSource.v.postBulkGet(
             this.logger, entity, payload as BulkGetRequest, revsQuery);
+        const resource = `entity/${entity.name}`;
+        for (const obj of bulk.results) {
+            for (const doc of obj.docs) {
+                if (doc.ok) {
+                    doc.ok = this.policyConfig.v.maskRow(
+                        context, resource, new Row(doc.ok)).raw();
+                }
+            }
+        }
         if (this.logger.willLog("Info")) {
             this.logger.info("Replication _bulk_get outbound:");
             for (const obj of bulk.results) {
@@ -570,6 +691,64 @@ export class ReplicationAdapter extends SessionAwareAdapter {
         response.end(result);
     }
 
+    /* Applies the field policy to every document that is not a deletion,
+     * a document that changes a protected column rejects the whole batch.
+     * Documents of server-authoritative entities, deletions included, are
+     * validated as well. They are not activated, replicated documents are
+     * stored as they are.
+     */
+    private async guardBulkDocs(context: IContext, entity: Entity,
+                                docsRequest: BulkDocsRequest): Promise<void> {
+        const resource = `entity/${entity.name}`;
+        for (const doc of docsRequest.docs || []) {
+            if (typeof doc["_id"] != "string") {
+                continue;
+            }
+            if (doc["_deleted"]) {
+                if (entity.serverAuthoritative) {
+                    const deleted = await this.source.v.getOne(
+                        this.logger, context, entity, doc["_id"]);
+                    if (deleted && !deleted.empty) {
+                        await this.validateDoc(
+                            context, entity, deleted, "delete");
+                    }
+                }
+                continue;
+            }
+            const row = new Row(doc);
+            let current: Row | undefined;
+            if (entity.serverAuthoritative ||
+                this.policyConfig.v.hasFieldRules(context, resource, "put")) {
+                current = await this.source.v.getOne(
+                    this.logger, context, entity, <string>doc["_id"]);
+            }
+            const action = current && !current.empty ? "put" : "post";
+            this.policyConfig.v.guardFields(
+                context, resource, action, row, current);
+            if (entity.serverAuthoritative) {
+                await this.validateDoc(
+                    context, entity, Row.dataToRow({ ...doc }, entity),
+                    action == "put" ? "update" : "create");
+            }
+        }
+    }
+
+    private async validateDoc(context: IContext, entity: Entity, row: Row,
+                              phase: Phase): Promise<void> {
+        const state = entity.rowToState(row);
+        try {
+            await entity.validate(phase, state, context);
+        } catch (error) {
+            if (error instanceof ValidationError) {
+                throw error;
+            }
+            const message = error instanceof Error ?
+                error.message : String(error);
+            throw new ValidationError(
+                [{ code: "invalid", message: message }], { cause: error });
+        }
+    }
+
     protected async payloadHandler(payload: JsonObject,
                                    request: IncomingMessage,
                                    response: ServerResponse,
@@ -592,7 +771,7 @@ export class ReplicationAdapter extends SessionAwareAdapter {
          * PUT         r entity _local replicationid    Insert replication log
          *                      ^ not passed in
          */
-        await this.authenticate(request);
+        const context = await this.authenticate(request);
         if (this.logger.willLog("Debug")) {
             this.logger.debug(JSON.stringify(payload));
         }
@@ -613,13 +792,15 @@ export class ReplicationAdapter extends SessionAwareAdapter {
                     this.logger, entity, payload as RevsDiffRequest);
                 response.end(JSON.stringify(diffResponse));
             } else if (id == "_bulk_docs") {
+                await this.guardBulkDocs(
+                    context, entity, payload as BulkDocsRequest);
                 const bulkResponse = await this.replSource.v.postBulkDocs(
                     this.logger, entity, payload as BulkDocsRequest);
                 response.statusCode = 201;
                 response.end(JSON.stringify(bulkResponse));
             } else if (id == "_bulk_get") {
                 await this.handleBulkGet(
-                    entity, payload, response, uriElements);
+                    context, entity, payload, response, uriElements);
             } else {
                 throw new ReplicationError(
                     "ReplicationAdapter POST must be either _revs_diff or " +
@@ -637,6 +818,10 @@ export class ReplicationAdapter extends SessionAwareAdapter {
 
     protected async authenticate(
         request: IncomingMessage): Promise<SessionContext> {
+        const keyContext = await this.apiKeyContext(request);
+        if (keyContext) {
+            return keyContext;
+        }
         const authHeader = getHeader(request.headers, "Authorization");
         if (!authHeader) {
             console.log(
@@ -662,18 +847,25 @@ export class ReplicationAdapter extends SessionAwareAdapter {
             throw new ReplicationError("Unauthorized", 401);
         }
         const userName = authBasic.v[0];
-        // Check the cache for this username
-        const cached = this.sessionCache.v.get(userName);
+        /* The cache is keyed by a hash of the credentials, so a wrong
+         * password always goes through the login guard. The entry is owned
+         * by the username, so revoking the user's sessions evicts it. It is
+         * not refreshed on use, the credentials are checked again once the
+         * ttl runs out.
+         */
+        const cacheKey = "basic:" + createHash("sha256")
+            .update(authHeader.substring("BASIC ".length)).digest("hex");
+        const cached = this.sessionCache.v.get(cacheKey);
         if (cached) {
-            // Refresh the timeout for the cached value
-            this.sessionCache.v.set(userName, cached);
             return cached;
         }
         const row = new Row(
             { "username": authBasic.v[0], "password": authBasic.v[1] });
 
-       const userId = await rzoAuthenticate(
-           this.logger, this.replSource.v, this.loginEntity.v, row);
+        const userId = await this.guardLogin(
+            request, userName,
+            () => rzoAuthenticate(
+                this.logger, this.replSource.v, this.loginEntity.v, row));
         /* The session backend will persist this API session, but since we
          * can not track the sessionId, we force a short expiry on this
          * persistent session and rely on the local cache instead.
@@ -691,7 +883,7 @@ export class ReplicationAdapter extends SessionAwareAdapter {
         }
 
         const sessionContext = new SessionContext(sessionRow, persona);
-        this.sessionCache.v.set(userName, sessionContext);
+        this.sessionCache.v.set(cacheKey, sessionContext, userName);
         return sessionContext;
     }
 
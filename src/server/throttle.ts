@@ -0,0 +1,309 @@
+/*
+    RZO - A Business Application Framework
+
+    Copyright (C) 2024 Frank Vanderham
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU General Public License as published by
+    the Free Software Foundation, either version 3 of the License, or
+    (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU General Public License for more details.
+
+    You should have received a copy of the GNU General Public License
+    along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import { createHash } from "node:crypto";
+
+import {
+    ClassSpec, TypeCfg, IConfiguration, DaemonWorker, _IError, Cfg, Logger,
+    ServiceSource, Entity, Row, Filter, IService, SideEffects
+} from "../base/core.js";
+
+import { NOCONTEXT } from "../base/configuration.js";
+
+class ThrottleError extends _IError {
+    constructor(message: string, code?: number, options?: ErrorOptions) {
+        super(code || 500, message, options);
+    }
+}
+
+export interface ILoginAttemptService {
+    get isLoginAttemptService(): boolean;
+    getLoginBlock(logger: Logger, entity: Entity,
+                  ids: string[]): Promise<Date | null>;
+    registerLoginFailure(logger: Logger, entity: Entity, id: string,
+                         key: string, baseDelay: number, maxDelay: number,
+                         resetAfter: number): Promise<number>;
+    deleteLoginAttemptsUpTo(logger: Logger, entity: Entity,
+                            updated: Date): Promise<void>;
+}
+
+export interface ILoginGuard {
+    get isLoginGuard(): boolean;
+    guard<T>(logger: Logger, username: string, address: string,
+             attempt: () => Promise<T>): Promise<T>;
+    guardRequest(logger: Logger, kind: string, username: string,
+                 address: string): Promise<void>;
+}
+
+/* All delays are in milliseconds. After a failed login, both the user and
+ * the address are blocked for 'baseDelay', doubling with every consecutive
+ * failure up to 'maxDelay'. A failure more than 'resetAfter' after the
+ * previous one starts counting from one again. The user account is locked
+ * once it reaches 'lockThreshold' consecutive failures.
+ */
+type LoginGuardSpec = ClassSpec & {
+    source: string;
+    attemptEntity: string;
+    lockoutEntity: string;
+    baseDelay: number;
+    maxDelay: number;
+    resetAfter: number;
+    lockThreshold: number;
+    purgeFrequency: number;
+}
+
+export class LoginGuard extends DaemonWorker implements ILoginGuard {
+    readonly name: string;
+    readonly baseDelay: number;
+    readonly maxDelay: number;
+    readonly resetAfter: number;
+    readonly lockThreshold: number;
+    readonly purgeFrequency: number;
+    source: Cfg<ServiceSource>;
+    attempts: Cfg<ILoginAttemptService>;
+    attemptEntity: Cfg<Entity>;
+    lockoutEntity: Cfg<Entity>;
+    userAccountEntity: Cfg<Entity>;
+    private _purgeId: NodeJS.Timeout | null;
+    logger: Logger;
+
+    static LOCKED = "LOCKED";
+
+    constructor(config: TypeCfg<LoginGuardSpec>,
+                blueprints: Map<string, any>) {
+        super(config, blueprints);
+        this.name = config.metadata.name;
+        this.baseDelay = config.spec.baseDelay;
+        this.maxDelay = config.spec.maxDelay;
+        this.resetAfter = config.spec.resetAfter;
+        this.lockThreshold = config.spec.lockThreshold;
+        this.purgeFrequency = config.spec.purgeFrequency;
+        if (!this.baseDelay || this.maxDelay < this.baseDelay ||
+            !this.resetAfter || !this.lockThreshold) {
+            throw new ThrottleError(
+                `Invalid LoginGuard configuration ${this.name}, baseDelay, ` +
+                `maxDelay, resetAfter and lockThreshold are required and ` +
+                `maxDelay cannot be below baseDelay`);
+        }
+        if (this.purgeFrequency < 1000) {
+            throw new ThrottleError(
+                `Invalid LoginGuard configuration ${this.name}, ` +
+                `purgeFrequency is below 1000`);
+        }
+        this.source = new Cfg(config.spec.source);
+        this.attempts = new Cfg(config.spec.source);
+        this.attemptEntity = new Cfg(config.spec.attemptEntity);
+        this.lockoutEntity = new Cfg(config.spec.lockoutEntity);
+        this.userAccountEntity = new Cfg("useraccount");
+        this._purgeId = null;
+        this.logger = new Logger(`throttle/${this.name}`);
+    }
+
+    configure(configuration: IConfiguration): void {
+        this.logger.configure(configuration);
+        this.source.v = configuration.getSource(
+            this.source.name).ensure(ServiceSource) as ServiceSource;
+        const service: unknown = this.source.v.service;
+        if (!((<any>service).isLoginAttemptService)) {
+            throw new ThrottleError(
+                `Invalid LoginGuard: ${this.name}: source ` +
+                `${this.source.name} is not an ILoginAttemptService`);
+        }
+        this.attempts.v = <ILoginAttemptService>service;
+        this.attemptEntity.v = configuration.getEntity(
+            this.attemptEntity.name);
+        this.lockoutEntity.v = configuration.getEntity(
+            this.lockoutEntity.name);
+        for (const entity of [this.attemptEntity, this.lockoutEntity]) {
+            if (!entity.v.immutable) {
+                throw new ThrottleError(
+                    `LoginGuard ${this.name}: entity ${entity.name} must be ` +
+                    `immutable`);
+            }
+        }
+        this.userAccountEntity.v = configuration.getEntity("useraccount");
+        configuration.registerAsyncTask(this);
+    }
+
+    get isLoginGuard(): boolean {
+        return true;
+    }
+
+    private get service(): IService {
+        return this.source.v.service;
+    }
+
+    /* Counters are shared by all servers, so each key maps onto a fixed
+     * _id that every server upserts.
+     */
+    static attemptId(key: string): string {
+        const hex = createHash("sha256").update(key).digest("hex");
+        return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-` +
+            `${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20, 32)}`;
+    }
+
+    private async getUserAccount(username: string): Promise<Row> {
+        const filter = new Filter().op("useraccountnum", "=", username);
+        return this.service.getQueryOne(
+            this.logger, NOCONTEXT, this.userAccountEntity.v, filter);
+    }
+
+    private async lock(username: string, address: string,
+                       failures: number): Promise<void> {
+        const userRow = await this.getUserAccount(username);
+        if (userRow.empty) {
+            return;
+        }
+        if (userRow.get("status") != LoginGuard.LOCKED) {
+            const state = await this.userAccountEntity.v.load(
+                this.service, NOCONTEXT, userRow.getString("_id"));
+            await this.userAccountEntity.v.setValue(
+                state, "status", LoginGuard.LOCKED, NOCONTEXT);
+            await this.userAccountEntity.v.put(
+                this.service, state, NOCONTEXT);
+        }
+        const lockout = await this.lockoutEntity.v.create(
+            NOCONTEXT, this.service);
+        const validations: Promise<SideEffects>[] = [];
+        validations.push(this.lockoutEntity.v.setValue(
+            lockout, "locked", new Date(), NOCONTEXT));
+        validations.push(this.lockoutEntity.v.setValue(
+            lockout, "useraccountnum", username, NOCONTEXT));
+        validations.push(this.lockoutEntity.v.setValue(
+            lockout, "address", address, NOCONTEXT));
+        validations.push(this.lockoutEntity.v.setValue(
+            lockout, "failures", failures, NOCONTEXT));
+        await Promise.all(validations);
+        await this.lockoutEntity.v.post(this.service, lockout, NOCONTEXT);
+        // An unlocked account starts counting from zero
+        await this.service.deleteImmutable(
+            this.logger, NOCONTEXT, this.attemptEntity.v,
+            LoginGuard.attemptId(`user:${username}`));
+        this.logger.error(
+            `Locked useraccount ${username} after ${failures} failed ` +
+            `logins, last from ${address}`);
+    }
+
+    private async failure(username: string, address: string): Promise<void> {
+        const userKey = `user:${username}`;
+        const addressKey = `address:${address}`;
+        const failures = await Promise.all([userKey, addressKey].map(
+            (key) => this.attempts.v.registerLoginFailure(
+                this.logger, this.attemptEntity.v, LoginGuard.attemptId(key),
+                key, this.baseDelay, this.maxDelay, this.resetAfter)));
+        this.logger.info(
+            `Failed login for ${username} from ${address}: ` +
+            `${failures[0]} for the user, ${failures[1]} for the address`);
+        if (failures[0] >= this.lockThreshold) {
+            await this.lock(username, address, failures[0]);
+        }
+    }
+
+    /* Runs 'attempt' unless the user or address is blocked or the account
+     * is locked. Authentication failures (401, 403) are counted, a
+     * successful attempt resets the user's counter.
+     */
+    async guard<T>(logger: Logger, username: string, address: string,
+                   attempt: () => Promise<T>): Promise<T> {
+        const userId = LoginGuard.attemptId(`user:${username}`);
+        const blocked = await this.attempts.v.getLoginBlock(
+            this.logger, this.attemptEntity.v,
+            [userId, LoginGuard.attemptId(`address:${address}`)]);
+        if (blocked) {
+            logger.error(
+                `Login attempt for ${username} from ${address} blocked ` +
+                `until ${blocked.toISOString()}`);
+            throw new ThrottleError("Too many login attempts", 429);
+        }
+        if (username) {
+            const userRow = await this.getUserAccount(username);
+            if (userRow.get("status") == LoginGuard.LOCKED) {
+                logger.error(
+                    `Login attempt for locked useraccount ${username} from ` +
+                    `${address}`);
+                throw new ThrottleError("Authentication error", 403);
+            }
+        }
+        try {
+            const result = await attempt();
+            await this.service.deleteImmutable(
+                this.logger, NOCONTEXT, this.attemptEntity.v, userId);
+            return result;
+        } catch (error) {
+            if (error instanceof _IError &&
+                (error.code == 401 || error.code == 403)) {
+                await this.failure(username, address).catch((exc) => {
+                    this.logger.error("Cannot register failed login");
+                    this.logger.exc(exc);
+                });
+            }
+            throw error;
+        }
+    }
+
+    /* Throttles requests that do not fail on bad credentials, like a
+     * password reset request: every request counts towards the backoff of
+     * both the user and the address, but never locks the account.
+     */
+    async guardRequest(logger: Logger, kind: string, username: string,
+                       address: string): Promise<void> {
+        const keys =
+            [`${kind}:user:${username}`, `${kind}:address:${address}`];
+        const ids = keys.map((key) => LoginGuard.attemptId(key));
+        const blocked = await this.attempts.v.getLoginBlock(
+            this.logger, this.attemptEntity.v, ids);
+        if (blocked) {
+            logger.error(
+                `${kind} request for ${username} from ${address} blocked ` +
+                `until ${blocked.toISOString()}`);
+            throw new ThrottleError(`Too many ${kind} requests`, 429);
+        }
+        await Promise.all(keys.map(
+            (key, index) => this.attempts.v.registerLoginFailure(
+                this.logger, this.attemptEntity.v, ids[index], key,
+                this.baseDelay, this.maxDelay, this.resetAfter)));
+    }
+
+    private purge(): void {
+        const keep = Math.max(this.resetAfter, this.maxDelay);
+        this.attempts.v.deleteLoginAttemptsUpTo(
+            this.logger, this.attemptEntity.v, new Date(Date.now() - keep))
+        .catch((error) => {
+            this.logger.error("Cannot purge login attempts");
+            this.logger.exc(error);
+        });
+    }
+
+    async start(): Promise<any> {
+        this._purgeId = setInterval(() => {
+            this.purge();
+        }, this.purgeFrequency);
+        this.logger.log(
+            `LoginGuard ${this.name} started with baseDelay: ` +
+            `${this.baseDelay}; maxDelay = ${this.maxDelay}; ` +
+            `lockThreshold = ${this.lockThreshold}`);
+    }
+
+    async stop(): Promise<any> {
+        if (this._purgeId) {
+            clearInterval(this._purgeId);
+        }
+        this.logger.log(`LoginGuard ${this.name} stopped`);
+    }
+}
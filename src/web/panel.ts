@@ -19,7 +19,7 @@
 
 import {
     State, Row, Entity, IService, Cfg, IContext, SideEffects, StringField,
-    Logger
+    Logger, ValidationError
 } from "../base/core.js";
 import { RZO, CONTEXT } from "../base/configuration.js";
 
@@ -344,6 +344,25 @@ export class FormPanel extends BasePanel {
         return Promise.all(validations);
     }
 
+    /* Marks the controls of the fields rejected by the server, returns
+     * false when none of the errors could be pinned on a control.
+     */
+    protected reportErrors(error: ValidationError): boolean {
+        let reported = false;
+        for (const fieldError of error.errors) {
+            const match = Array.from(this.controls.values()).find(
+                (control) => control.attribute == fieldError.field);
+            if (match) {
+                match.element.setCustomValidity(fieldError.message);
+                reported = true;
+            }
+        }
+        if (reported) {
+            this.form.reportValidity();
+        }
+        return reported;
+    }
+
     protected reset(): void {
         for (const control of this.controls.values()) {
             control.element.value = "";
@@ -365,7 +384,10 @@ export class FormPanel extends BasePanel {
                     this.controller.v.pop(new PanelData("Row", row));
                 })
                 .catch((err) => {
-                    TOASTER.error(`ERROR: ${err}`);
+                    if (!(err instanceof ValidationError &&
+                          this.reportErrors(err))) {
+                        TOASTER.error(`ERROR: ${err}`);
+                    }
                 });
             })
             .catch((err) => {
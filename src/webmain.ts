@@ -17,7 +17,7 @@
     along with this program.  If not, see <https://www.gnu.org/licenses/>.
 */
 
-import { RZO } from "./base/configuration.js";
+import { RZO, CONTEXT } from "./base/configuration.js";
 
 import { TOASTER } from "./web/toaster.js";
 import { PanelController, PanelData } from "./web/panel.js";
@@ -120,6 +120,11 @@ function locationHashToMap(hash: string): Map<string, string> {
     return result;
 }
 
+// Keeps the session refreshed while the user works in a form
+function recordActivity(): void {
+    RZO.getAuthenticator("auth").service.recordActivity(CONTEXT.session);
+}
+
 function entryPoint(): void {
     const hashMap = locationHashToMap(document.location.hash.slice(1));
     const url = new URL(document.location.href);
@@ -148,6 +153,8 @@ import(metadataName)
             oneTimeLoginPanel.initialize();
             passwordResetPanel.initialize();
             loginPanel.initialize();
+            document.addEventListener("keydown", recordActivity);
+            document.addEventListener("pointerdown", recordActivity);
             entryPoint();
         })
         .catch((error) => {